@@ -1,5 +1,14 @@
-import type { MouseEvent, ReactNode, Ref } from "react";
+import {
+  useEffect,
+  useMemo,
+  useState,
+  type MouseEvent,
+  type ReactNode,
+  type Ref,
+} from "react";
 import { Link as RouterLink, useLocation } from "react-router";
+import { prefetchRoute, type PrefetchMode } from "~/prefetchRoute";
+import { mergeRefs } from "~/utils/mergeRefs";
 
 interface LinkProps {
   children: ReactNode;
@@ -9,6 +18,43 @@ interface LinkProps {
   onClick?: (event: MouseEvent<HTMLAnchorElement>) => void;
   ref?: Ref<HTMLAnchorElement>;
   target?: "_blank" | "_self" | "_parent" | "_top";
+  prefetch?: PrefetchMode;
+}
+
+/**
+ * Prefetches an internal href on hover/focus or when it enters the viewport.
+ * Returns a callback ref plus the hover handlers to spread on the anchor.
+ */
+function usePrefetch(
+  href: string,
+  mode: PrefetchMode | undefined,
+  ref: Ref<HTMLAnchorElement> | undefined
+) {
+  const [node, setNode] = useState<HTMLAnchorElement | null>(null);
+
+  useEffect(() => {
+    if (mode !== "viewport" || !node) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        prefetchRoute(href);
+        observer.disconnect();
+      }
+    });
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [href, mode, node]);
+
+  // Keep the forwarded ref working alongside our own
+  const setRef = useMemo(() => mergeRefs(setNode, ref), [ref]);
+
+  const warm = () => prefetchRoute(href);
+  const handlers =
+    mode === "hover"
+      ? { onMouseEnter: warm, onFocus: warm, onTouchStart: warm }
+      : {};
+
+  return { ref: setRef, handlers };
 }
 
 /**
@@ -32,6 +78,11 @@ interface LinkProps {
  * @example
  * // Hash link
  * <Link href="#section">Jump to Section</Link>
+ *
+ * @example
+ * // Load the page chunk and its data before the click
+ * // (routes opt in via lazyWithPreload + handle.prefetch)
+ * <Link href={`/reports/${report.id}`} prefetch="hover">{report.name}</Link>
  */
 function Link({
   children,
@@ -40,6 +91,7 @@ function Link({
   className,
   onClick,
   ref,
+  prefetch,
   ...rest
 }: LinkProps) {
   const pathname = useLocation().pathname;
@@ -49,6 +101,9 @@ function Link({
   // Internal links start with exactly one slash or a hash
   const internal = /^[/#](?!\/)/.test(href);
 
+  // Only internal routes have chunks and loaders to warm
+  const prefetcher = usePrefetch(href, internal ? prefetch : undefined, ref);
+
   // Use RouterLink for internal links or when onClick is provided
   if (internal || onClick) {
     const cleanHref = href;
@@ -64,7 +119,8 @@ function Link({
         to={cleanHref}
         onClick={onClick}
         className={classes}
-        ref={ref}
+        ref={prefetcher.ref}
+        {...prefetcher.handlers}
         {...rest}
       >
         {children}
@@ -1,5 +1,5 @@
 import { forwardRef, type InputHTMLAttributes } from "react";
-import { useFormContext, type RegisterOptions } from "react-hook-form";
+import { get, useFormContext, type RegisterOptions } from "react-hook-form";
 import { ErrorMessage } from "./ErrorMessage";
 
 interface CheckboxProps {
@@ -22,7 +22,7 @@ export const Checkbox = forwardRef<HTMLInputElement, CheckboxProps>(function Che
     formState: { errors },
   } = useFormContext();
 
-  const error = errors[name]?.message as string | undefined;
+  const error = get(errors, name)?.message as string | undefined;
 
   // Get required message
   const requiredMessage =
@@ -1,4 +1,4 @@
-import { useFormContext } from "react-hook-form";
+import { get, useFormContext } from "react-hook-form";
 import { ErrorMessage } from "./ErrorMessage";
 
 interface Option {
@@ -33,7 +33,7 @@ export function CheckboxGroup({
     formState: { errors },
   } = useFormContext();
 
-  const error = errors[name]?.message as string | undefined;
+  const error = get(errors, name)?.message as string | undefined;
 
   // Get required message
   const requiredMessage =
@@ -1,23 +1,81 @@
-import { type ReactNode } from "react";
-import { useForm, FormProvider, type DefaultValues } from "react-hook-form";
+import {
+  createContext,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  type ReactNode,
+} from "react";
+import {
+  useForm,
+  FormProvider,
+  type DefaultValues,
+  type FieldPath,
+} from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { type ZodSchema, type z } from "zod";
+import { ValidationError } from "~/lib/errors";
+import { BaseButtonModal } from "~/components/templates/modal/BaseButtonModal";
+import { useFormDraft, type FormPersistOptions } from "./useFormDraft";
+
+// Failed result from the crud functions (they return instead of throwing)
+interface SubmitFailure {
+  success: false;
+  error?: Error;
+  message?: string;
+}
+
+type SubmitResult = void | SubmitFailure | { success: true };
 
 interface FormWrapperProps<T extends ZodSchema> {
   children: ReactNode;
   className?: string;
   defaultValues?: DefaultValues<z.infer<T>>;
+  // Render the form-level error banner above children (default true)
+  errorBanner?: boolean;
   mode?: "onBlur" | "onChange" | "onSubmit" | "all";
-  onSubmit: (data: z.infer<T>) => void | Promise<void>;
+  onSubmit: (data: z.infer<T>) => SubmitResult | Promise<SubmitResult>;
+  // Autosave a draft and offer to restore it (see useFormDraft.ts)
+  persist?: FormPersistOptions;
   schema: T;
 }
 
+interface FormSubmitState {
+  isSubmitting: boolean;
+  // Last submit failure; cleared when the next submit starts
+  submitError: Error | null;
+  // Messages not tied to a rendered field (what the banner shows)
+  formErrors: string[];
+}
+
+const FormSubmitContext = createContext<FormSubmitState>({
+  isSubmitting: false,
+  submitError: null,
+  formErrors: [],
+});
+
+/**
+ * Submit state of the surrounding FormWrapper
+ * For submit buttons and custom banners (with errorBanner={false})
+ */
+export const useFormSubmit = () => useContext(FormSubmitContext);
+
+const isSubmitFailure = (result: SubmitResult): result is SubmitFailure =>
+  typeof result === "object" && result !== null && result.success === false;
+
+const toError = (failure: unknown): Error => {
+  if (failure instanceof Error) return failure;
+  return new Error(String(failure ?? "Something went wrong"));
+};
+
 export function FormWrapper<T extends ZodSchema>({
   children,
   className,
   defaultValues,
+  errorBanner = true,
   mode = "onBlur",
   onSubmit,
+  persist,
   schema,
 }: FormWrapperProps<T>) {
   const methods = useForm<z.infer<T>>({
@@ -25,16 +83,133 @@ export function FormWrapper<T extends ZodSchema>({
     defaultValues,
     mode,
   });
+  const formRef = useRef<HTMLFormElement>(null);
+  const bannerRef = useRef<HTMLDivElement>(null);
+  const [submitError, setSubmitError] = useState<Error | null>(null);
+  const [formErrors, setFormErrors] = useState<string[]>([]);
+  const { draft, restoreDraft, discardDraft, clearDraft } = useFormDraft(
+    methods,
+    formRef,
+    persist
+  );
+  // The banner only exists after the failure renders, so focus it in an effect
+  const focusBanner = useRef(false);
+
+  useEffect(() => {
+    if (!focusBanner.current) return;
+    focusBanner.current = false;
+    bannerRef.current?.focus();
+  }, [submitError]);
+
+  // A server field counts as a form field if an input renders it or it
+  // has a value (Controller inputs may not carry a name attribute)
+  const isField = (path: string) =>
+    path !== "" &&
+    (Boolean(formRef.current?.querySelector(`[name="${CSS.escape(path)}"]`)) ||
+      methods.getValues(path as FieldPath<z.infer<T>>) !== undefined);
+
+  const showFailure = (failure: unknown) => {
+    const error = toError(failure);
+    const fields =
+      error instanceof ValidationError ? Object.entries(error.fields) : [];
+    const fieldErrors = fields.filter(([path]) => isField(path));
+    const messages = fields
+      .filter(([path]) => !isField(path))
+      .map(([, message]) => message);
+
+    fieldErrors.forEach(([path, message]) =>
+      methods.setError(path as FieldPath<z.infer<T>>, {
+        type: "server",
+        message,
+      })
+    );
+
+    // Field errors speak for themselves; otherwise show the error itself
+    if (fieldErrors.length === 0 && messages.length === 0) {
+      messages.push(error.message);
+    }
+
+    setSubmitError(error);
+    setFormErrors(messages);
+
+    // Focus the first invalid field in DOM order, else the banner
+    const names = new Set(fieldErrors.map(([path]) => path));
+    const first = Array.from(
+      formRef.current?.querySelectorAll<HTMLElement>("[name]") ?? []
+    ).find((element) => names.has(element.getAttribute("name") ?? ""));
+
+    if (first) first.focus();
+    else if (fieldErrors.length > 0) {
+      methods.setFocus(fieldErrors[0][0] as FieldPath<z.infer<T>>);
+    } else focusBanner.current = true;
+  };
+
+  const submit = methods.handleSubmit(async (data) => {
+    setSubmitError(null);
+    setFormErrors([]);
+
+    try {
+      const result = await onSubmit(data);
+      if (isSubmitFailure(result)) {
+        showFailure(result.error ?? result.message);
+        return;
+      }
+      await clearDraft();
+    } catch (error) {
+      showFailure(error);
+    }
+  });
+
+  const state: FormSubmitState = {
+    isSubmitting: methods.formState.isSubmitting,
+    submitError,
+    formErrors,
+  };
+
+  const draftSavedAt = draft ? new Date(draft.savedAt).toLocaleString() : "";
 
   return (
     <FormProvider {...methods}>
-      <form
-        onSubmit={methods.handleSubmit(onSubmit)}
-        className={className}
-        noValidate
-      >
-        {children}
-      </form>
+      <FormSubmitContext.Provider value={state}>
+        <form
+          ref={formRef}
+          onSubmit={submit}
+          className={className}
+          aria-busy={state.isSubmitting}
+          noValidate
+        >
+          {errorBanner && formErrors.length > 0 && (
+            <div
+              ref={bannerRef}
+              role="alert"
+              tabIndex={-1}
+              className="rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-700 focus:outline-none"
+            >
+              {formErrors.length === 1 ? (
+                formErrors[0]
+              ) : (
+                <ul className="list-disc space-y-1 pl-5">
+                  {formErrors.map((message) => (
+                    <li key={message}>{message}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+          {children}
+        </form>
+        {persist && (
+          <BaseButtonModal
+            open={draft !== null}
+            onCancel={discardDraft}
+            onConfirm={restoreDraft}
+            title="Restore your draft?"
+            content={`You have unsaved changes from ${draftSavedAt}.`}
+            cancelText="Discard"
+            confirmText="Restore"
+          />
+        )}
+      </FormSubmitContext.Provider>
     </FormProvider>
   );
 }
@@ -76,3 +251,40 @@ export function FormWrapper<T extends ZodSchema>({
 //     </FormWrapper>
 //   );
 // }
+//
+// Server validation errors - return the crud result (or throw the ApiError).
+// A 422 with { details: [{ path: ["email"], message: "Already taken" }] }
+// shows under the email input; other errors show in the banner:
+//
+// <FormWrapper
+//   schema={userSchema}
+//   onSubmit={(data) => createItem("users", data)}
+// >
+//   <Input id="email" name="email" label="Email" type="email" />
+//   <Input id="city" name="address.city" label="City" />
+//   <SubmitButton />
+// </FormWrapper>
+//
+// function SubmitButton() {
+//   const { isSubmitting } = useFormSubmit();
+//   return (
+//     <button type="submit" disabled={isSubmitting}>
+//       {isSubmitting ? "Saving..." : "Save"}
+//     </button>
+//   );
+// }
+//
+// Draft autosave for long forms - offered back after a refresh, cleared on
+// successful submit. Password inputs are never saved; mark other sensitive
+// inputs with data-sensitive or list them in `exclude`:
+//
+// const { user } = useAuth();
+//
+// <FormWrapper
+//   schema={onboardingSchema}
+//   persist={{ key: "onboarding", scope: user?.id, exclude: ["taxId"] }}
+//   onSubmit={handleSubmit}
+// >
+//   <Input id="company" name="company" label="Company" />
+//   <input {...register("iban")} data-sensitive />
+// </FormWrapper>
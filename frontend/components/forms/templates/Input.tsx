@@ -1,5 +1,5 @@
 import { forwardRef, type InputHTMLAttributes, type ReactNode } from "react";
-import { useFormContext, type RegisterOptions } from "react-hook-form";
+import { get, useFormContext, type RegisterOptions } from "react-hook-form";
 import { InputWrapper } from "./InputWrapper";
 
 interface InputProps {
@@ -43,7 +43,7 @@ export const Input = forwardRef<HTMLInputElement, InputProps>(function Input(
     formState: { errors },
   } = useFormContext();
 
-  const error = errors[name]?.message as string | undefined;
+  const error = get(errors, name)?.message as string | undefined;
   const descriptionId = description ? `${id}-description` : undefined;
 
   // Get required message
@@ -1,5 +1,5 @@
 import { forwardRef, type ReactNode } from "react";
-import { useFormContext, type RegisterOptions } from "react-hook-form";
+import { get, useFormContext, type RegisterOptions } from "react-hook-form";
 import { InputWrapper } from "./InputWrapper";
 
 interface Option {
@@ -44,7 +44,7 @@ export const Select = forwardRef<HTMLSelectElement, SelectProps>(function Select
     formState: { errors },
   } = useFormContext();
 
-  const error = errors[name]?.message as string | undefined;
+  const error = get(errors, name)?.message as string | undefined;
   const descriptionId = description ? `${id}-description` : undefined;
 
   // Get required message
@@ -0,0 +1,283 @@
+/**
+ * Draft autosave for FormWrapper's `persist` option
+ *
+ * Saves the form's values (debounced) under a per-user key, offers them
+ * back on the next mount and deletes them after a successful submit.
+ * Password inputs, inputs marked `data-sensitive` and `exclude` paths are
+ * never written to storage.
+ *
+ * Usage (through FormWrapper):
+ *   <FormWrapper
+ *     schema={onboardingSchema}
+ *     persist={{ key: "onboarding", scope: user?.id, exclude: ["ssn"] }}
+ *     onSubmit={handleSubmit}
+ *   >
+ */
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  type RefObject,
+} from "react";
+import { type FieldValues, type UseFormReturn } from "react-hook-form";
+
+const KEY_PREFIX = "form-draft";
+const DB_NAME = "form-drafts";
+const DB_STORE = "drafts";
+const DEFAULT_DEBOUNCE = 1000;
+const DEFAULT_TTL = 1000 * 60 * 60 * 24 * 7; // 7 days
+const SENSITIVE_SELECTOR = 'input[type="password"], [data-sensitive]';
+
+export interface FormPersistOptions {
+  // Unique per form, e.g. "onboarding" or `settings-${orgId}`
+  key: string;
+  // Current user's ID - drafts are never offered to another user
+  scope?: string;
+  // Defaults to "localStorage"; use IndexedDB for very large forms
+  storage?: "localStorage" | "indexedDB";
+  // Drafts older than this (ms) are discarded
+  ttl?: number;
+  // Save delay after the last change (ms)
+  debounce?: number;
+  // Field paths never saved (password/data-sensitive inputs are always skipped)
+  exclude?: string[];
+}
+
+interface Draft<T> {
+  values: T;
+  savedAt: number;
+}
+
+interface DraftStorage {
+  get: (key: string) => Promise<string | null>;
+  set: (key: string, value: string) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+}
+
+// ============ STORAGE ============
+
+const localDraftStorage: DraftStorage = {
+  get: async (key) => localStorage.getItem(key),
+  set: async (key, value) => localStorage.setItem(key, value),
+  remove: async (key) => localStorage.removeItem(key),
+};
+
+const idbRequest = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const objectStore = async (mode: IDBTransactionMode) => {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore(DB_STORE);
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+  return (await dbPromise).transaction(DB_STORE, mode).objectStore(DB_STORE);
+};
+
+const indexedDbDraftStorage: DraftStorage = {
+  get: async (key) => {
+    const store = await objectStore("readonly");
+    return ((await idbRequest(store.get(key))) as string | undefined) ?? null;
+  },
+  set: async (key, value) => {
+    await idbRequest((await objectStore("readwrite")).put(value, key));
+  },
+  remove: async (key) => {
+    await idbRequest((await objectStore("readwrite")).delete(key));
+  },
+};
+
+// ============ HELPERS ============
+
+/**
+ * Deletes a dot-path ("address.line1", "contacts.0.phone") from a copy
+ * Array entries are blanked instead, so later entries keep their index
+ */
+const omitPath = (values: unknown, path: string[]): unknown => {
+  if (path.length === 0 || values === null || typeof values !== "object") {
+    return values;
+  }
+
+  const [head, ...rest] = path;
+  const copy: Record<string, unknown> = Array.isArray(values)
+    ? ([...values] as unknown as Record<string, unknown>)
+    : { ...(values as Record<string, unknown>) };
+
+  if (rest.length === 0) {
+    if (Array.isArray(values)) copy[head] = undefined;
+    else delete copy[head];
+  } else if (head in copy) copy[head] = omitPath(copy[head], rest);
+
+  return copy;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Lays a saved draft over the current values. Omitted fields keep their
+ * current value - a deleted key, or the null JSON writes for an array entry
+ */
+const mergeDraft = (current: unknown, saved: unknown): unknown => {
+  if (Array.isArray(saved)) {
+    const base: unknown[] = Array.isArray(current) ? current : [];
+    return saved.map((value, index) =>
+      value === null ? base[index] ?? null : mergeDraft(base[index], value)
+    );
+  }
+
+  if (isRecord(saved) && isRecord(current)) {
+    const merged = { ...current };
+    Object.entries(saved).forEach(([key, value]) => {
+      merged[key] = mergeDraft(current[key], value);
+    });
+    return merged;
+  }
+
+  return saved;
+};
+
+// ============ HOOK ============
+
+/**
+ * Autosaves `methods` values and exposes the saved draft for restoring
+ * Pass `undefined` options to disable
+ */
+export function useFormDraft<T extends FieldValues>(
+  methods: UseFormReturn<T>,
+  formRef: RefObject<HTMLFormElement>,
+  options: FormPersistOptions | undefined
+) {
+  const [draft, setDraft] = useState<Draft<T> | null>(null);
+  // Saving waits until the stored draft was offered and accepted/discarded,
+  // or the empty form would overwrite it
+  const ready = useRef(false);
+  const timer = useRef<ReturnType<typeof setTimeout>>();
+  // The debounced save, until it runs - flushed on unmount
+  const pendingSave = useRef<(() => void) | null>(null);
+
+  const key = options
+    ? `${KEY_PREFIX}:${options.scope ?? "anonymous"}:${options.key}`
+    : null;
+  const storage =
+    options?.storage === "indexedDB"
+      ? indexedDbDraftStorage
+      : localDraftStorage;
+  const ttl = options?.ttl ?? DEFAULT_TTL;
+
+  // Latest options without resubscribing on every render
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  // Load the stored draft for this form + user
+  useEffect(() => {
+    ready.current = false;
+    setDraft(null);
+    if (!key) return;
+
+    let cancelled = false;
+    storage
+      .get(key)
+      .then((raw) => {
+        if (cancelled) return;
+        const stored: Draft<T> | null = raw ? JSON.parse(raw) : null;
+
+        if (stored && Date.now() - stored.savedAt < ttl) setDraft(stored);
+        else {
+          if (stored) void storage.remove(key).catch(() => undefined);
+          ready.current = true;
+        }
+      })
+      .catch(() => {
+        ready.current = true;
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key, storage, ttl]);
+
+  // Debounced save on every change
+  useEffect(() => {
+    if (!key) return;
+
+    const subscription = methods.watch((values) => {
+      if (!ready.current) return;
+      clearTimeout(timer.current);
+
+      // Read now - on unmount the form is gone before the flush below
+      const sensitive = Array.from(
+        formRef.current?.querySelectorAll(SENSITIVE_SELECTOR) ?? [],
+        (element) => element.getAttribute("name")
+      ).filter((name): name is string => Boolean(name));
+      const excluded = [...sensitive, ...(optionsRef.current?.exclude ?? [])];
+
+      const save = () => {
+        pendingSave.current = null;
+        const safe = excluded.reduce<unknown>(
+          (current, path) => omitPath(current, path.split(".")),
+          values
+        );
+
+        const stored: Draft<unknown> = { values: safe, savedAt: Date.now() };
+        void storage.set(key, JSON.stringify(stored)).catch(() => {
+          // Quota exceeded / private mode - autosave is best effort
+        });
+      };
+
+      pendingSave.current = save;
+      timer.current = setTimeout(
+        save,
+        optionsRef.current?.debounce ?? DEFAULT_DEBOUNCE
+      );
+    });
+
+    return () => {
+      subscription.unsubscribe();
+      clearTimeout(timer.current);
+      // Leaving mid-debounce (e.g. navigating away) still saves the last edit
+      pendingSave.current?.();
+    };
+  }, [key, storage, methods, formRef]);
+
+  /**
+   * Deletes the stored draft and stops any pending save
+   */
+  const clearDraft = useCallback(async () => {
+    clearTimeout(timer.current);
+    pendingSave.current = null;
+    setDraft(null);
+    if (key) await storage.remove(key).catch(() => undefined);
+  }, [key, storage]);
+
+  /**
+   * Fills the form with the draft (over the defaults) and resumes autosave
+   */
+  const restoreDraft = useCallback(() => {
+    if (!draft) return;
+    methods.reset(mergeDraft(methods.getValues(), draft.values) as T, {
+      keepDefaultValues: true,
+    });
+    setDraft(null);
+    ready.current = true;
+  }, [draft, methods]);
+
+  /**
+   * Throws the draft away and resumes autosave
+   */
+  const discardDraft = useCallback(() => {
+    ready.current = true;
+    void clearDraft();
+  }, [clearDraft]);
+
+  return { draft, restoreDraft, discardDraft, clearDraft };
+}
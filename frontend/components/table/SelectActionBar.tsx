@@ -19,6 +19,7 @@ interface SelectActionBarProps {
   actions: ActionButtonProps[];
   active?: boolean;
   error?: boolean;
+  errorMessage?: string;
   onClose: () => void;
   onErrorClose: () => void;
   tableRef?: React.RefObject<HTMLTableElement | null>;
@@ -30,9 +31,10 @@ interface SelectActionBarProps {
  * Displays at the bottom of the screen when rows are selected.
  *
  * @example
+ * // Bulk delete via useBulkAction (data-fetching) - loading, error and
+ * // cache invalidation are handled by the hook
  * const [selectedRows, setSelectedRows] = useState<Set<string>>(new Set());
- * const [actionError, setActionError] = useState(false);
- * const [isActionLoading, setIsActionLoading] = useState(false);
+ * const deleteSelected = useBulkAction({ resource: "tasks", action: "delete" });
  * const tableRef = useRef<HTMLTableElement>(null);
  *
  * const actions = [
@@ -40,26 +42,21 @@ interface SelectActionBarProps {
  *     id: "delete",
  *     label: "Delete Selected",
  *     onClick: async () => {
- *       setIsActionLoading(true);
- *       try {
- *         await handleBulkDelete(Array.from(selectedRows));
- *         setSelectedRows(new Set());
- *       } catch (error) {
- *         setActionError(true);
- *       } finally {
- *         setIsActionLoading(false);
- *       }
+ *       const { failed } = await deleteSelected.run(Array.from(selectedRows));
+ *       // Failed rows stay selected so they can be retried
+ *       setSelectedRows(new Set(failed.map((failure) => failure.id)));
  *     },
- *     isLoading: isActionLoading,
+ *     isLoading: deleteSelected.isLoading,
  *   },
  * ];
  *
  * <SelectActionBar
  *   active={selectedRows.size > 0}
- *   error={actionError}
+ *   error={Boolean(deleteSelected.error)}
+ *   errorMessage={deleteSelected.error?.message} // e.g. "2 of 10 couldn't be deleted"
  *   actions={actions}
  *   onClose={() => setSelectedRows(new Set())}
- *   onErrorClose={() => setActionError(false)}
+ *   onErrorClose={deleteSelected.reset}
  *   tableRef={tableRef}
  * />
  */
@@ -67,6 +64,7 @@ const SelectActionBar: React.FC<SelectActionBarProps> = ({
   actions,
   active,
   error,
+  errorMessage = "Oops, looks like something went wrong. Please try again.",
   onClose,
   onErrorClose,
   tableRef,
@@ -226,9 +224,7 @@ const SelectActionBar: React.FC<SelectActionBarProps> = ({
                   aria-hidden="true"
                 />
 
-                <p className="mx-4 text-white">
-                  Oops, looks like something went wrong. Please try again.
-                </p>
+                <p className="mx-4 text-white">{errorMessage}</p>
 
                 <ButtonBase
                   onClick={onErrorClose}
@@ -2,6 +2,7 @@ import type { MouseEvent, ReactNode } from "react";
 
 import ButtonBase from "~/atoms/buttons/ButtonBase";
 import Link from "~/atoms/Link";
+import type { PrefetchMode } from "~/prefetchRoute";
 import { classNames } from "~/utils/classNames";
 
 interface TableCellButtonProps {
@@ -24,14 +25,16 @@ interface TableCellLinkProps {
   children: ReactNode;
   className: string;
   href: string;
+  prefetch?: PrefetchMode;
 }
 
 const TableCellLink: React.FC<TableCellLinkProps> = ({
   children,
   className,
   href,
+  prefetch,
 }) => (
-  <Link className={className} href={href}>
+  <Link className={className} href={href} prefetch={prefetch}>
     {children}
   </Link>
 );
@@ -77,6 +80,7 @@ export interface TableCellProps {
   headerId?: string;
   headers?: string;
   href?: string | null;
+  prefetch?: PrefetchMode;
   onClick?: (event: MouseEvent<HTMLButtonElement>) => void;
   removeFixedWidth?: boolean;
   fitTight?: boolean;
@@ -97,6 +101,12 @@ export interface TableCellProps {
  * <TableCell href={`/items/${item.id}`}>{item.name}</TableCell>
  *
  * @example
+ * // Link that loads the detail page + item before the click
+ * <TableCell href={`/items/${item.id}`} prefetch="hover">
+ *   {item.name}
+ * </TableCell>
+ *
+ * @example
  * // As a button
  * <TableCell onClick={() => handleAction(item.id)}>{item.name}</TableCell>
  *
@@ -116,6 +126,7 @@ const TableCell: React.FC<TableCellProps> = ({
   headerId,
   headers,
   href,
+  prefetch,
   onClick,
   removeFixedWidth = false,
   fitTight = false,
@@ -162,7 +173,7 @@ const TableCell: React.FC<TableCellProps> = ({
         headers={headers}
         colSpan={colSpan}
       >
-        <TableCellLink href={href} className={cellStyle}>
+        <TableCellLink href={href} prefetch={prefetch} className={cellStyle}>
           {children}
         </TableCellLink>
       </TableCellWrapper>
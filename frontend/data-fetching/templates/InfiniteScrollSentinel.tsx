@@ -0,0 +1,76 @@
+import { useEffect, useRef, type ReactNode } from "react";
+
+interface InfiniteScrollSentinelProps {
+  /** Called each time the sentinel scrolls into view */
+  onVisible: () => void;
+  /** Stop observing (no more pages, or a page is loading) */
+  disabled?: boolean;
+  /** How early to trigger, as a CSS margin around the viewport */
+  rootMargin?: string;
+  /** Rendered inside the sentinel, e.g. a spinner while loading */
+  children?: ReactNode;
+  className?: string;
+}
+
+/**
+ * Invisible marker placed after a list that loads more when it becomes visible.
+ * Pairs with useInfiniteResource.
+ *
+ * @example
+ * const { data, fetchNextPage, hasNextPage, isFetchingNextPage } =
+ *   useInfiniteResource<Activity>({ resource: "activities" });
+ *
+ * <ul>{data.map((a) => <ActivityRow key={a.id} activity={a} />)}</ul>
+ * <InfiniteScrollSentinel
+ *   onVisible={fetchNextPage}
+ *   disabled={!hasNextPage || isFetchingNextPage}
+ * >
+ *   {isFetchingNextPage && <SkeletonLoader height="48px" />}
+ * </InfiniteScrollSentinel>
+ *
+ * @example
+ * // "Load more" button fallback (no intersection observer needed)
+ * {hasNextPage && (
+ *   <Button onClick={fetchNextPage} isLoading={isFetchingNextPage}>
+ *     Load more
+ *   </Button>
+ * )}
+ */
+function InfiniteScrollSentinel({
+  onVisible,
+  disabled = false,
+  rootMargin = "200px",
+  children,
+  className,
+}: InfiniteScrollSentinelProps) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  // Keep the latest callback without re-creating the observer
+  const onVisibleRef = useRef(onVisible);
+  onVisibleRef.current = onVisible;
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || disabled || typeof IntersectionObserver === "undefined") {
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry?.isIntersecting) onVisibleRef.current();
+      },
+      { rootMargin }
+    );
+
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [disabled, rootMargin]);
+
+  return (
+    <div ref={ref} aria-hidden={!children} className={className}>
+      {children}
+    </div>
+  );
+}
+
+export default InfiniteScrollSentinel;
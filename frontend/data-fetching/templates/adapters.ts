@@ -0,0 +1,178 @@
+/**
+ * Response-shape adapters
+ *
+ * Normalise whatever a backend returns into the internal shapes the hooks use:
+ *   item             → T
+ *   collection       → PaginatedResponse<T>
+ *   cursorCollection → CursorPaginatedResponse<T>
+ *
+ * `defaultAdapter` understands all of these out of the box:
+ *   { doc } / { data } / raw item                          (single items)
+ *   { docs, totalDocs, totalPages, page, ... }              (Payload CMS)
+ *   { data, pagination: { page, limit, total, totalPages } } (backend/plan)
+ *   { data, totalDocs, ... }                                (internal shape)
+ *   { data | docs, pageInfo }                               (cursor)
+ *   [ ...items ]                                            (raw arrays)
+ *
+ * Usage:
+ *   // Per client
+ *   createApiClient({ baseUrl, adapter: myAdapter });
+ *
+ *   // Per resource (only override what differs)
+ *   createApiClient({
+ *     baseUrl,
+ *     resourceAdapters: { "legacy-users": { item: (body: any) => body.user } },
+ *   });
+ */
+
+import type {
+  CursorPaginatedResponse,
+  PaginatedResponse,
+  PaginationParams,
+  ResponseAdapter,
+} from "./types";
+
+type Body = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Body =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const num = (value: unknown): number | undefined =>
+  typeof value === "number" ? value : undefined;
+
+// Keys a `{ data }` envelope may carry besides the payload itself
+const ENVELOPE_KEYS = ["data", "message", "success"];
+
+/**
+ * Unwraps `{ doc }` or a `{ data }` envelope; anything else is the item itself
+ */
+const item = <T>(body: unknown): T => {
+  if (isObject(body)) {
+    if ("doc" in body) return body.doc as T;
+
+    const isEnvelope =
+      isObject(body.data) && Object.keys(body).every((key) => ENVELOPE_KEYS.includes(key));
+    if (isEnvelope) return body.data as T;
+  }
+
+  return body as T;
+};
+
+/**
+ * Finds the items array under `docs`, `data`, or the body itself
+ */
+const itemsOf = <T>(body: unknown): T[] => {
+  if (Array.isArray(body)) return body as T[];
+  if (isObject(body)) {
+    if (Array.isArray(body.docs)) return body.docs as T[];
+    if (Array.isArray(body.data)) return body.data as T[];
+  }
+  return [];
+};
+
+/**
+ * Builds a PaginatedResponse from page/limit/total, filling the derived fields
+ */
+interface PageTotals {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages?: number;
+}
+
+const toPaginated = <T>(
+  data: T[],
+  { page, limit, total, totalPages }: PageTotals
+): PaginatedResponse<T> => {
+  const pages = totalPages ?? Math.max(1, Math.ceil(total / Math.max(limit, 1)));
+  const hasNextPage = page < pages;
+  const hasPrevPage = page > 1;
+
+  return {
+    data,
+    totalDocs: total,
+    totalPages: pages,
+    page,
+    limit,
+    hasNextPage,
+    hasPrevPage,
+    nextPage: hasNextPage ? page + 1 : undefined,
+    prevPage: hasPrevPage ? page - 1 : undefined,
+  };
+};
+
+const collection = <T>(
+  body: unknown,
+  params: PaginationParams<T> = {}
+): PaginatedResponse<T> => {
+  const data = itemsOf<T>(body);
+  const requestedPage = params.page ?? 1;
+  const requestedLimit = params.limit ?? data.length;
+
+  // Raw array: everything is on this page
+  if (!isObject(body)) {
+    return toPaginated(data, {
+      page: requestedPage,
+      limit: requestedLimit,
+      total: data.length,
+      totalPages: 1,
+    });
+  }
+
+  // Backend pattern: { data, pagination: { page, limit, total, totalPages } }
+  if (isObject(body.pagination)) {
+    const { pagination } = body;
+    return toPaginated(data, {
+      page: num(pagination.page) ?? requestedPage,
+      limit: num(pagination.limit) ?? requestedLimit,
+      total: num(pagination.total) ?? data.length,
+      totalPages: num(pagination.totalPages),
+    });
+  }
+
+  // Payload-style / internal shape: totals sit next to docs|data
+  const normalised = toPaginated(data, {
+    page: num(body.page) ?? requestedPage,
+    limit: num(body.limit) ?? requestedLimit,
+    total: num(body.totalDocs) ?? data.length,
+    totalPages: num(body.totalPages),
+  });
+
+  return {
+    ...normalised,
+    hasNextPage: (body.hasNextPage as boolean | undefined) ?? normalised.hasNextPage,
+    hasPrevPage: (body.hasPrevPage as boolean | undefined) ?? normalised.hasPrevPage,
+    nextPage: num(body.nextPage) ?? normalised.nextPage,
+    prevPage: num(body.prevPage) ?? normalised.prevPage,
+  };
+};
+
+const cursorCollection = <T>(body: unknown): CursorPaginatedResponse<T> => {
+  const data = itemsOf<T>(body);
+  const pageInfo: Body = isObject(body) && isObject(body.pageInfo) ? body.pageInfo : {};
+
+  return {
+    data,
+    pageInfo: {
+      startCursor: (pageInfo.startCursor as string | null | undefined) ?? null,
+      endCursor: (pageInfo.endCursor as string | null | undefined) ?? null,
+      hasNextPage: Boolean(pageInfo.hasNextPage),
+      hasPreviousPage: Boolean(pageInfo.hasPreviousPage),
+    },
+    totalDocs: isObject(body) ? num(body.totalDocs) : undefined,
+  };
+};
+
+export const defaultAdapter: ResponseAdapter = {
+  item,
+  collection,
+  cursorCollection,
+};
+
+/**
+ * Fills any missing adapter methods from a base adapter
+ */
+export const extendAdapter = (
+  base: ResponseAdapter,
+  overrides: Partial<ResponseAdapter> = {}
+): ResponseAdapter => ({ ...base, ...overrides });
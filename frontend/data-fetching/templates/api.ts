@@ -1,110 +1,414 @@
 /**
- * Low-level API fetch wrapper with authentication and token refresh
+ * Low-level API client with authentication, token refresh, retries and interceptors
  *
  * CONFIGURE: Set API_URL and REFRESH_URL for your backend
+ *
+ * Usage:
+ *   // Default client (configured below)
+ *   const user = await api<User>("/users/me", null, { method: "GET" });
+ *
+ *   // Second backend with its own auth and headers
+ *   export const billingClient = createApiClient({
+ *     baseUrl: "https://billing.example.com/api",
+ *     refreshUrl: "https://billing.example.com/api/auth/refresh",
+ *     interceptors: { request: [tenantHeader(() => orgId)] },
+ *     retry: { retries: 3 }, // see retry.ts
+ *   });
  */
 
-import type { ApiOptions, FileApiOptions } from "./types";
+import {
+  AuthExpiredError,
+  NetworkError,
+  createApiError,
+  isAbortError,
+  parseRetryAfter,
+  toApiError,
+  type ApiError,
+} from "./errors";
+import { defaultAdapter, extendAdapter } from "./adapters";
+import { resourceName } from "./resourcePath";
+import { buildFormData, collectFiles, xhrFetch } from "./upload";
+import { broadcast, onTabMessage } from "./tabSync";
+import {
+  canRetry,
+  resolveRetryPolicy,
+  retryDelay,
+  sleep,
+  type RetryPolicy,
+} from "./retry";
+import type {
+  ApiClient,
+  ApiClientConfig,
+  ApiOptions,
+  ApiRequest,
+  FileApiOptions,
+  RequestOptions,
+  ResourcePath,
+  ResponseAdapter,
+  SessionExpiredListener,
+} from "./types";
 
 // TODO: Configure these for your project
 const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3000/api";
 const REFRESH_URL = `${API_URL}/users/refresh-token`;
 
+const BODY_METHODS = ["POST", "PATCH", "PUT"];
+// Not idempotent on their own - they get an Idempotency-Key
+const KEYED_METHODS = ["POST", "PATCH"];
+
+const remove = <T>(list: T[], item: T | undefined): void => {
+  const index = item ? list.indexOf(item) : -1;
+  if (index !== -1) list.splice(index, 1);
+};
+
 /**
- * Makes an authenticated API request with automatic token refresh on 401
+ * Creates an API client bound to one backend
+ * Each client has its own refresh state, listeners and interceptors
  */
-export const api = async <T = unknown>(
-  url: string,
-  body: Record<string, unknown> | null = null,
-  options: ApiOptions = {},
-  retry = true
-): Promise<T> => {
-  const { method = "POST", auth = true, headers = {}, signal } = options;
-
-  const res = await fetch(url, {
-    method,
-    ...(body && (method === "POST" || method === "PATCH" || method === "PUT")
-      ? { body: JSON.stringify(body) }
-      : {}),
-    ...(auth ? { credentials: "include" as const } : {}),
-    headers: {
-      "Content-Type": "application/json",
-      ...headers,
-    },
-    signal,
-  });
-
-  // Auto-refresh token on 401 and retry once
-  if (res.status === 401 && auth && retry) {
-    const refreshRes = await fetch(REFRESH_URL, {
-      method: "POST",
-      credentials: "include",
-    });
+export const createApiClient = (config: ApiClientConfig): ApiClient => {
+  const {
+    baseUrl,
+    refreshUrl,
+    credentials = "include",
+    interceptors = {},
+    adapter = defaultAdapter,
+    resourceAdapters = {},
+    retry: retryConfig,
+    idempotencyHeader = "Idempotency-Key",
+    fetch: customFetch,
+  } = config;
+
+  const requestInterceptors = [...(interceptors.request ?? [])];
+  const responseInterceptors = [...(interceptors.response ?? [])];
+  const errorInterceptors = [...(interceptors.error ?? [])];
+
+  // Single in-flight refresh shared by every request that hits a 401
+  let refreshPromise: Promise<void> | null = null;
+  // Bumped after each successful refresh so stale 401s replay without refreshing again
+  let sessionVersion = 0;
+  const sessionExpiredListeners = new Set<SessionExpiredListener>();
 
-    if (refreshRes.ok) {
-      return api<T>(url, body, options, false);
+  /**
+   * Resolves relative paths against baseUrl; absolute URLs pass through
+   */
+  const resolveUrl = (url: string): string => {
+    if (/^https?:\/\//.test(url)) return url;
+    return `${baseUrl.replace(/\/$/, "")}/${url.replace(/^\//, "")}`;
+  };
+
+  /**
+   * Runs request interceptors, then fetch(), then response interceptors
+   * Uses the XHR transport when upload progress is requested (unless the
+   * client has its own fetch)
+   * Connection failures become NetworkError; aborts are re-thrown untouched
+   */
+  const send = async (request: ApiRequest): Promise<Response> => {
+    let finalRequest = request;
+    for (const interceptor of requestInterceptors) {
+      finalRequest = await interceptor(finalRequest);
     }
-    throw new Error("Session expired. Please log in again.");
-  }
 
-  if (!res.ok) {
-    const error = await res.json().catch(() => ({}));
-    throw new Error(error.message || `Request failed: ${res.status}`);
-  }
+    const { url, auth, onUploadProgress, ...init } = finalRequest;
+    const requestInit: RequestInit = {
+      ...init,
+      ...(auth ? { credentials } : {}),
+    };
 
-  return res.json() as Promise<T>;
-};
+    let res: Response;
+    try {
+      res = customFetch
+        ? await customFetch(url, requestInit)
+        : onUploadProgress
+          ? await xhrFetch(url, requestInit, onUploadProgress)
+          : await fetch(url, requestInit);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      throw new NetworkError(undefined, error);
+    }
 
-/**
- * Makes an API request with file upload (FormData)
- */
-export const fileApi = async <T = unknown>(
-  url: string,
-  data: Record<string, unknown>,
-  options: FileApiOptions,
-  retry = true
-): Promise<T> => {
-  const { method = "POST", auth = true, file, signal } = options;
-
-  const formData = new FormData();
-  formData.append("file", file);
-  formData.append("_payload", JSON.stringify(data));
-
-  const res = await fetch(url, {
-    method,
-    body: formData,
-    ...(auth ? { credentials: "include" as const } : {}),
-    signal,
-  });
-
-  // Auto-refresh token on 401 and retry once
-  if (res.status === 401 && auth && retry) {
-    const refreshRes = await fetch(REFRESH_URL, {
-      method: "POST",
-      credentials: "include",
-    });
+    for (const interceptor of responseInterceptors) {
+      res = await interceptor(res, finalRequest);
+    }
+
+    return res;
+  };
+
+  /**
+   * send() with retries for network errors and retryable statuses
+   * Resolves with the last response once retries are used up
+   */
+  const sendWithRetry = async (
+    request: ApiRequest,
+    policy: RetryPolicy | null
+  ): Promise<Response> => {
+    const retries =
+      policy && canRetry(request, policy, idempotencyHeader) ? policy.retries : 0;
+
+    for (let attempt = 0; ; attempt += 1) {
+      let delay: number | null;
+
+      try {
+        const res = await send(request);
+        if (attempt >= retries || !policy!.statuses.includes(res.status)) return res;
 
-    if (refreshRes.ok) {
-      return fileApi<T>(url, data, options, false);
+        delay = retryDelay(
+          attempt,
+          policy!,
+          parseRetryAfter(res.headers.get("Retry-After"))
+        );
+        // Server asked for a longer wait than we're willing to hold the caller
+        if (delay === null) return res;
+      } catch (error) {
+        if (attempt >= retries || !(error instanceof NetworkError)) throw error;
+        delay = retryDelay(attempt, policy!)!;
+      }
+
+      await sleep(delay, request.signal);
     }
-    throw new Error("Session expired. Please log in again.");
-  }
+  };
+
+  /**
+   * Passes the error through error interceptors, which may replace it
+   */
+  const fail = async (error: ApiError, request: ApiRequest): Promise<never> => {
+    let finalError = error;
+    for (const interceptor of errorInterceptors) {
+      finalError = (await interceptor(finalError, request)) ?? finalError;
+    }
+    throw finalError;
+  };
 
-  if (!res.ok) {
-    const error = await res.json().catch(() => ({}));
-    throw new Error(error.message || `Request failed: ${res.status}`);
+  /**
+   * Refreshes the session, or joins the refresh already in flight
+   * Every waiter rejects with the same AuthExpiredError if it fails
+   */
+  const refreshSession = (): Promise<void> => {
+    if (refreshPromise) return refreshPromise;
+
+    refreshPromise = (async () => {
+      // A NetworkError here propagates as-is: being offline is not a logout
+      const refreshRes = await send({
+        url: resolveUrl(refreshUrl!),
+        method: "POST",
+        headers: {},
+        auth: true,
+      });
+
+      if (refreshRes.ok) {
+        sessionVersion += 1;
+        broadcast({ type: "auth", event: "token-refreshed", scope: refreshUrl });
+        return;
+      }
+
+      const error = new AuthExpiredError();
+      sessionExpiredListeners.forEach((listener) => listener(error));
+      throw error;
+    })().finally(() => {
+      refreshPromise = null;
+    });
+
+    return refreshPromise;
+  };
+
+  // Another tab refreshed the shared session - 401s already in flight here
+  // replay with it instead of refreshing a second time
+  if (refreshUrl) {
+    onTabMessage((message) => {
+      if (
+        message.type === "auth" &&
+        message.event === "token-refreshed" &&
+        message.scope === refreshUrl
+      ) {
+        sessionVersion += 1;
+      }
+    });
   }
 
-  return res.json() as Promise<T>;
+  /**
+   * Waits for a valid session after a 401
+   * Skips the refresh if another request already refreshed since `startedAt`
+   */
+  const recoverSession = async (startedAt: number): Promise<void> => {
+    if (sessionVersion !== startedAt && !refreshPromise) return;
+    await refreshSession();
+  };
+
+  /**
+   * Sends a request, refreshing once on 401 and replaying it
+   * Concurrent 401s share one refresh call
+   */
+  const execute = async <T>(
+    request: ApiRequest,
+    policy: RetryPolicy | null,
+    retry = true
+  ): Promise<T> => {
+    const startedAt = sessionVersion;
+
+    try {
+      const res = await sendWithRetry(request, policy);
+
+      if (res.status === 401 && request.auth && retry && refreshUrl) {
+        await recoverSession(startedAt);
+        return execute<T>(request, policy, false);
+      }
+
+      if (!res.ok) {
+        throw await createApiError(res);
+      }
+
+      return (await res.json()) as T;
+    } catch (error) {
+      // The replay re-throws raw so error interceptors run exactly once
+      if (isAbortError(error) || !retry) throw error;
+      return fail(toApiError(error, "Request failed"), request);
+    }
+  };
+
+  const request = <T = unknown>(
+    url: string,
+    options: RequestOptions = {}
+  ): Promise<T> => {
+    const {
+      method = "GET",
+      auth = true,
+      headers = {},
+      body,
+      signal,
+      onUploadProgress,
+      retry,
+      idempotencyKey,
+    } = options;
+
+    // One key per call, reused by every retry and the post-refresh replay
+    const keyHeaders =
+      idempotencyHeader && KEYED_METHODS.includes(method)
+        ? { [idempotencyHeader]: idempotencyKey ?? crypto.randomUUID() }
+        : {};
+
+    return execute<T>(
+      {
+        url: resolveUrl(url),
+        method,
+        body,
+        headers: { ...keyHeaders, ...headers },
+        auth,
+        signal,
+        onUploadProgress,
+      },
+      resolveRetryPolicy(retryConfig, retry)
+    );
+  };
+
+  const api = <T = unknown>(
+    url: string,
+    body: Record<string, unknown> | null = null,
+    options: ApiOptions = {}
+  ): Promise<T> => {
+    const { method = "POST", headers = {}, ...rest } = options;
+
+    return request<T>(url, {
+      ...rest,
+      method,
+      ...(body && BODY_METHODS.includes(method)
+        ? { body: JSON.stringify(body) }
+        : {}),
+      headers: {
+        "Content-Type": "application/json",
+        ...headers,
+      },
+    });
+  };
+
+  const fileApi = <T = unknown>(
+    url: string,
+    data: Record<string, unknown>,
+    options: FileApiOptions
+  ): Promise<T> => {
+    const { method = "POST", file, files, onProgress, ...rest } = options;
+
+    // No Content-Type: the browser sets the multipart boundary
+    return request<T>(url, {
+      ...rest,
+      method,
+      body: buildFormData(data, collectFiles(file, files)),
+      onUploadProgress: onProgress,
+    });
+  };
+
+  const publicApi = <T = unknown>(
+    url: string,
+    body: Record<string, unknown> | null = null,
+    options: Omit<ApiOptions, "auth"> = {}
+  ): Promise<T> => {
+    return api<T>(url, body, { ...options, auth: false });
+  };
+
+  const onSessionExpired = (listener: SessionExpiredListener) => {
+    sessionExpiredListeners.add(listener);
+    return () => {
+      sessionExpiredListeners.delete(listener);
+    };
+  };
+
+  // Nested resources use their collection name: ["orgs", id, "projects"] → "projects"
+  const adapterFor = (resource: ResourcePath): ResponseAdapter => {
+    const name = resourceName(resource);
+    return resourceAdapters[name]
+      ? extendAdapter(adapter, resourceAdapters[name])
+      : adapter;
+  };
+
+  const use: ApiClient["use"] = ({ request, response, error }) => {
+    if (request) requestInterceptors.push(request);
+    if (response) responseInterceptors.push(response);
+    if (error) errorInterceptors.push(error);
+
+    return () => {
+      remove(requestInterceptors, request);
+      remove(responseInterceptors, response);
+      remove(errorInterceptors, error);
+    };
+  };
+
+  return {
+    baseUrl,
+    api,
+    fileApi,
+    request,
+    publicApi,
+    onSessionExpired,
+    adapterFor,
+    use,
+  };
 };
 
+// ============ DEFAULT CLIENT ============
+
+export const apiClient = createApiClient({
+  baseUrl: API_URL,
+  refreshUrl: REFRESH_URL,
+});
+
+/**
+ * Makes an authenticated API request with automatic token refresh on 401
+ * Throws an ApiError subclass (see errors.ts) on failure
+ */
+export const api = apiClient.api;
+
+/**
+ * Makes an API request with file upload (FormData)
+ * Pass `files` for multiple named fields and `onProgress` for progress events
+ */
+export const fileApi = apiClient.fileApi;
+
 /**
  * Makes an unauthenticated (public) API request
  */
-export const publicApi = async <T = unknown>(
-  url: string,
-  body: Record<string, unknown> | null = null,
-  options: Omit<ApiOptions, "auth"> = {}
-): Promise<T> => {
-  return api<T>(url, body, { ...options, auth: false });
-};
+export const publicApi = apiClient.publicApi;
+
+/**
+ * Subscribes to session expiry (refresh token rejected)
+ * Fires once per failed refresh, however many requests were waiting
+ * Returns an unsubscribe function
+ */
+export const onSessionExpired = apiClient.onSessionExpired;
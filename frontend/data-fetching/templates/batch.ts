@@ -0,0 +1,104 @@
+/**
+ * Dataloader-style batching for getItem
+ *
+ * A table with one useResource per row fires one GET /users/:id per row.
+ * For resources configured here, getItem calls made in the same tick are
+ * coalesced into one collection request (`where[id][in]=...`) and each
+ * caller still gets back its own item - so every row's query fills its own
+ * detail cache key. Repeated IDs are requested once; IDs the server didn't
+ * return resolve as 404s.
+ *
+ * Usage:
+ *   // App setup
+ *   configureBatching({
+ *     users: true,                       // default max batch size
+ *     products: { maxBatchSize: 100 },
+ *     accounts: { idField: "accountId" },
+ *   });
+ *
+ *   // Unchanged - these now share one request
+ *   rows.map((row) => <OwnerAvatar key={row.id} userId={row.ownerId} />);
+ */
+
+import type { BatchOptions } from "./types";
+
+const DEFAULT_MAX_BATCH_SIZE = 50;
+
+export type ResolvedBatchOptions = Required<BatchOptions>;
+
+// Resources with batching enabled; getItem reads this on every call
+const batchedResources = new Map<string, ResolvedBatchOptions>();
+
+/**
+ * Enables batching per resource (replaces the previous configuration)
+ * The backend must support `where[<idField>][in]` on the collection endpoint
+ */
+export const configureBatching = (
+  resources: Record<string, BatchOptions | boolean>
+): void => {
+  batchedResources.clear();
+
+  Object.entries(resources).forEach(([resource, options]) => {
+    if (options === false) return;
+    batchedResources.set(resource, {
+      maxBatchSize: DEFAULT_MAX_BATCH_SIZE,
+      idField: "id",
+      ...(options === true ? {} : options),
+    });
+  });
+};
+
+/**
+ * Batching options for a resource, or undefined when it isn't batched
+ */
+export const batchOptionsFor = (resource: string): ResolvedBatchOptions | undefined =>
+  batchedResources.get(resource);
+
+export interface Batcher<V> {
+  load: (key: string) => Promise<V | undefined>;
+}
+
+interface PendingLoad<V> {
+  key: string;
+  resolve: (value: V | undefined) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Collects keys requested within one tick and loads them together
+ * `loadMany` returns the values it found; missing keys resolve undefined
+ */
+export const createBatcher = <V>(
+  loadMany: (keys: string[]) => Promise<Map<string, V>>,
+  maxBatchSize = DEFAULT_MAX_BATCH_SIZE
+): Batcher<V> => {
+  let queue: PendingLoad<V>[] = [];
+
+  const flush = () => {
+    const pending = queue;
+    queue = [];
+
+    const keys = [...new Set(pending.map((load) => load.key))];
+
+    for (let start = 0; start < keys.length; start += maxBatchSize) {
+      const chunk = keys.slice(start, start + maxBatchSize);
+      const waiting = pending.filter((load) => chunk.includes(load.key));
+
+      loadMany(chunk).then(
+        (found) => waiting.forEach((load) => load.resolve(found.get(load.key))),
+        (error) => waiting.forEach((load) => load.reject(error))
+      );
+    }
+  };
+
+  return {
+    load: (key) =>
+      new Promise((resolve, reject) => {
+        queue.push({ key, resolve, reject });
+        // setTimeout rather than a microtask so rows mounted by the same
+        // render - whose effects may flush in a later task - still batch
+        if (queue.length === 1) setTimeout(flush, 0);
+      }),
+  };
+};
+
@@ -4,7 +4,20 @@
  * REQUIRES: QueryClient to be initialized and accessible
  */
 
-import { QueryClient } from "@tanstack/react-query";
+import {
+  QueryClient,
+  type InfiniteData,
+  type Query,
+  type QueryKey,
+} from "@tanstack/react-query";
+import { resourceKey } from "./resourcePath";
+import { broadcast, onTabMessage } from "./tabSync";
+import type {
+  ApiResponse,
+  PaginationParams,
+  ResourceItem,
+  ResourcePath,
+} from "./types";
 
 // Create and export the query client
 export const queryClient = new QueryClient({
@@ -17,39 +30,284 @@ export const queryClient = new QueryClient({
 });
 
 /**
- * Creates a cache key for a resource
- * Pattern: {resource} or {resource}-{id}
+ * Query key factory - keys are arrays, most general segment first
+ *
+ *   [resource]                     prefix of the keys below (and nested ones)
+ *   [resource, "detail", id]       one item
+ *   [resource, "list", params]     one page of a paginated list
+ *   [resource, "infinite", params] an infinite list (all loaded pages)
+ *
+ * TanStack matches keys by prefix and params objects by partial deep
+ * equality, so "users" never touches "user-settings", and a filter can
+ * target just the lists it affects.
+ *
+ * Nested resources spread their segments first (see resourcePath.ts):
+ *   ["organizations", "o1", "projects", "list", params]
+ */
+export const queryKeys = {
+  all: (resource: ResourcePath) => resourceKey(resource),
+  detail: (resource: ResourcePath, id: string | null) => [
+    ...resourceKey(resource),
+    "detail",
+    id,
+  ],
+  lists: (resource: ResourcePath) => [...resourceKey(resource), "list"],
+  list: (resource: ResourcePath, params: object) => [
+    ...resourceKey(resource),
+    "list",
+    params,
+  ],
+  infinites: (resource: ResourcePath) => [...resourceKey(resource), "infinite"],
+  infinite: (resource: ResourcePath, params: object) => [
+    ...resourceKey(resource),
+    "infinite",
+    params,
+  ],
+};
+
+/**
+ * Whether `queryKey` starts with `prefix` (plain segments only)
+ */
+const startsWith = (queryKey: QueryKey, prefix: readonly unknown[]): boolean =>
+  prefix.every((segment, index) => queryKey[index] === segment);
+
+const OWN_QUERY_KINDS = ["detail", "list", "infinite"];
+
+/**
+ * Matches a resource's own details and lists, not resources nested under it
+ * (["organizations"] skips ["organizations", "o1", "projects", ...])
+ */
+const ownQueriesPredicate = (resource: ResourcePath) => {
+  const key = resourceKey(resource);
+  return (query: Query): boolean =>
+    OWN_QUERY_KINDS.some((kind) => startsWith(query.queryKey, [...key, kind]));
+};
+
+// `nested` also reaches everything under the key (invalidateChildren)
+const invalidateLocally = (resource: ResourcePath, nested = false) =>
+  queryClient.invalidateQueries(
+    nested
+      ? { queryKey: queryKeys.all(resource) }
+      : { predicate: ownQueriesPredicate(resource) }
+  );
+
+/**
+ * Invalidates all cache entries for a resource (details and lists)
+ * Use after create/update/delete operations - other tabs refetch too
+ * Nested resources are left alone; see invalidateChildren
  */
-export const createCacheKey = (resource: string, id?: string): string => {
-  return id ? `${resource}-${id}` : resource;
+export const invalidateResource = (resource: ResourcePath): void => {
+  invalidateLocally(resource);
+  broadcast({ type: "invalidate", resource });
 };
 
 /**
- * Invalidates all cache entries for a resource
- * Use after create/update/delete operations
+ * Invalidates a single item's detail query
  */
-export const invalidateResource = (resource: string): void => {
+export const invalidateDetail = (
+  resource: ResourcePath,
+  id: string
+): void => {
+  queryClient.invalidateQueries({ queryKey: queryKeys.detail(resource, id) });
+};
+
+/**
+ * Invalidates paginated and infinite lists of a resource
+ * Pass a partial params object to only hit lists that include it:
+ *
+ *   invalidateLists("users");                                     // every list
+ *   invalidateLists("users", { where: { status: { equals: "active" } } });
+ */
+export const invalidateLists = <T = Record<string, unknown>>(
+  resource: ResourcePath,
+  filter?: PaginationParams<T>
+): void => {
   queryClient.invalidateQueries({
-    predicate: (query) => {
-      const key = query.queryKey[0];
-      return typeof key === "string" && key.startsWith(resource);
-    },
+    queryKey: filter ? queryKeys.list(resource, filter) : queryKeys.lists(resource),
+  });
+  queryClient.invalidateQueries({
+    queryKey: filter ? queryKeys.infinite(resource, filter) : queryKeys.infinites(resource),
   });
 };
 
 /**
- * Removes a specific item from cache
+ * Removes a specific item from cache (in every open tab)
  * Use after deleting an item
  */
-export const removeFromCache = (resource: string, id: string): void => {
-  const key = createCacheKey(resource, id);
-  queryClient.removeQueries({ queryKey: [key] });
+export const removeFromCache = (resource: ResourcePath, id: string): void => {
+  queryClient.removeQueries({ queryKey: queryKeys.detail(resource, id) });
+  broadcast({ type: "remove", resource, id });
 };
 
 /**
- * Clears all cache
+ * Invalidates every sub-resource of one item (in every open tab)
+ * Use after deleting or moving a parent:
+ *
+ *   invalidateChildren("organizations", orgId);
+ *   // → ["organizations", orgId, "projects", ...], [..., "members", ...]
+ */
+export const invalidateChildren = (resource: ResourcePath, id: string): void => {
+  const parent = [...resourceKey(resource), id];
+  invalidateLocally(parent, true);
+  broadcast({ type: "invalidate", resource: parent, nested: true });
+};
+
+/**
+ * Clears all cache (in every open tab)
  * Use sparingly - prefer targeted invalidation
  */
 export const clearAllCache = (): void => {
   queryClient.clear();
+  broadcast({ type: "clear" });
+};
+
+// Apply what sibling tabs changed - locally only, so nothing echoes back
+onTabMessage((message) => {
+  if (message.type === "invalidate") {
+    invalidateLocally(message.resource, message.nested);
+  } else if (message.type === "remove") {
+    queryClient.removeQueries({
+      queryKey: queryKeys.detail(message.resource, message.id),
+    });
+  } else if (message.type === "clear") {
+    queryClient.clear();
+  }
+});
+
+// ============ OPTIMISTIC UPDATES ============
+
+// Query data captured before an optimistic write, for rollback
+export type CacheSnapshot = Array<[QueryKey, unknown]>;
+
+// A list response or one page of an infinite list (cursor pages may omit
+// the total; failed pages have no data array)
+interface ItemPage<T> {
+  data: T[];
+  totalDocs?: number;
+}
+
+const isListQuery = (query: Query, resource: ResourcePath): boolean =>
+  startsWith(query.queryKey, queryKeys.lists(resource));
+
+const isInfiniteQuery = (query: Query, resource: ResourcePath): boolean =>
+  startsWith(query.queryKey, queryKeys.infinites(resource));
+
+/**
+ * Matches the item's detail query plus every cached list of the resource
+ */
+const itemQueriesPredicate =
+  (resource: ResourcePath, id: string) =>
+  (query: Query): boolean =>
+    startsWith(query.queryKey, queryKeys.detail(resource, id)) ||
+    isListQuery(query, resource) ||
+    isInfiniteQuery(query, resource);
+
+// Reads an item's ID; resources with a custom idField pass their own
+export type ItemIdGetter<T> = (item: T) => string;
+
+const defaultGetId = (item: ResourceItem): string => String(item.id);
+
+const hasItem = <T extends ResourceItem>(
+  page: ItemPage<T> | undefined,
+  id: string,
+  getId: ItemIdGetter<T>
+): page is ItemPage<T> =>
+  Boolean(
+    page && Array.isArray(page.data) && page.data.some((item) => getId(item) === id)
+  );
+
+const patchItems = <T extends ResourceItem>(
+  items: T[],
+  id: string,
+  update: (item: T) => T | null,
+  getId: ItemIdGetter<T>
+): T[] =>
+  items.flatMap((item) => {
+    if (getId(item) !== id) return [item];
+    const next = update(item);
+    return next ? [next] : [];
+  });
+
+const withTotal = <P extends ItemPage<unknown>>(page: P, removed: number): P =>
+  typeof page.totalDocs === "number" && removed > 0
+    ? { ...page, totalDocs: page.totalDocs - removed }
+    : page;
+
+/**
+ * Cancels in-flight fetches for an item and snapshots its cached data
+ * Call before an optimistic write so a late response can't overwrite it
+ */
+export const snapshotItem = async (
+  resource: ResourcePath,
+  id: string
+): Promise<CacheSnapshot> => {
+  const predicate = itemQueriesPredicate(resource, id);
+  await queryClient.cancelQueries({ predicate });
+  return queryClient.getQueriesData({ predicate });
+};
+
+/**
+ * Puts snapshotted data back (rollback after a failed mutation)
+ */
+export const restoreSnapshot = (snapshot: CacheSnapshot): void => {
+  snapshot.forEach(([queryKey, data]) => {
+    queryClient.setQueryData(queryKey, data);
+  });
+};
+
+/**
+ * Rewrites an item wherever it is cached: its detail query, any list page
+ * and any loaded page of an infinite list
+ * Return null from `update` to drop the item (optimistic delete)
+ * Pass `getId` when list items aren't keyed by `id` (defineResource idField)
+ */
+export const setCachedItem = <T extends ResourceItem>(
+  resource: ResourcePath,
+  id: string,
+  update: (item: T) => T | null,
+  getId: ItemIdGetter<T> = defaultGetId
+): void => {
+  const detailKey = queryKeys.detail(resource, id);
+  const detail = queryClient.getQueryData<ApiResponse<T>>(detailKey);
+
+  if (detail?.data) {
+    const next = update(detail.data);
+    if (next) {
+      queryClient.setQueryData<ApiResponse<T>>(detailKey, { ...detail, data: next });
+    } else {
+      queryClient.removeQueries({ queryKey: detailKey, exact: true });
+    }
+  }
+
+  queryClient.setQueriesData<ItemPage<T>>(
+    { predicate: (query) => isListQuery(query, resource) },
+    (list) => {
+      if (!hasItem(list, id, getId)) return list;
+      const data = patchItems(list.data, id, update, getId);
+      return withTotal({ ...list, data }, list.data.length - data.length);
+    }
+  );
+
+  // Every page carries the list total, so a removal lowers it on each page
+  queryClient.setQueriesData<InfiniteData<ItemPage<T>>>(
+    { predicate: (query) => isInfiniteQuery(query, resource) },
+    (infinite) => {
+      if (!infinite?.pages.some((page) => hasItem(page, id, getId))) {
+        return infinite;
+      }
+
+      let removed = 0;
+      const pages = infinite.pages.map((page) => {
+        if (!hasItem(page, id, getId)) return page;
+        const data = patchItems(page.data, id, update, getId);
+        removed += page.data.length - data.length;
+        return { ...page, data };
+      });
+
+      return {
+        ...infinite,
+        pages: pages.map((page) => withTotal(page, removed)),
+      };
+    }
+  );
 };
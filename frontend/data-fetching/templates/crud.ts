@@ -1,198 +1,508 @@
 /**
  * Generic CRUD operations for REST resources
  *
- * CONFIGURE: Set API_URL for your backend
+ * Runs through an ApiClient (see api.ts) - the default exports use `apiClient`.
+ * For a second backend, build a bound set with createCrud(otherClient).
+ *
+ * Response bodies go through the client's adapter (see adapters.ts), so
+ * items and collections come back in one shape whatever the backend sends.
  */
 
-import { api, fileApi, publicApi } from "./api";
+import { apiClient } from "./api";
+import { batchOptionsFor, createBatcher, type Batcher } from "./batch";
+import { ApiError, toApiError } from "./errors";
+import { collectFiles, uploadFilesChunked } from "./upload";
+import { resourceName, resourceUrl } from "./resourcePath";
+import { parseItem, parseItems } from "./validation";
 // NOTE: Import from your project's utils location (e.g., ~/utils/queryString)
 import { buildQueryString, appendSort } from "~/utils/queryString";
 import type {
+  ApiClient,
   ApiResponse,
+  BulkOptions,
+  BulkResult,
+  ChunkedUploadOptions,
+  CursorPaginatedResponse,
+  CursorPaginationParams,
   PaginatedResponse,
   PaginationParams,
-  FileApiOptions,
+  ResourcePath,
+  ResponseValidation,
+  UploadFiles,
+  UploadProgress,
 } from "./types";
 
-// TODO: Configure this for your project
-const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3000/api";
+export interface MutationOptions {
+  file?: File;
+  files?: UploadFiles;
+  signal?: AbortSignal;
+  onProgress?: (progress: UploadProgress) => void;
+  // Upload files in resumable chunks first, then send `_uploads` IDs as JSON
+  chunked?: boolean | ChunkedUploadOptions;
+}
 
 /**
- * Creates a new item in the resource
+ * Converts a caught error into a failed ApiResponse
+ * Keeps the typed error so callers can branch on status/kind
  */
-export const createItem = async <T>(
-  resource: string,
-  data: Record<string, unknown>,
-  options?: { file?: File; signal?: AbortSignal }
-): Promise<ApiResponse<T>> => {
-  try {
-    const url = `${API_URL}/${resource}`;
-
-    let result: { doc: T };
-
-    if (options?.file) {
-      result = await fileApi<{ doc: T }>(url, data, {
-        method: "POST",
-        file: options.file,
-        signal: options.signal,
-      });
-    } else {
-      result = await api<{ doc: T }>(url, data, { method: "POST" });
-    }
+const toFailure = (error: unknown, fallbackMessage: string): ApiResponse<never> => {
+  const apiError = toApiError(error, fallbackMessage);
+  return { success: false, message: apiError.message, error: apiError };
+};
 
-    return { success: true, data: result.doc };
-  } catch (error) {
-    return {
-      success: false,
-      message: error instanceof Error ? error.message : "Create failed",
-    };
-  }
+/**
+ * Builds the collection query string from pagination params
+ */
+const toCollectionQuery = <T>(params: PaginationParams<T>): string => {
+  const { page = 1, limit = 10, sort, where } = params;
+  return appendSort(buildQueryString({ page, limit, where }), sort);
 };
 
 /**
- * Gets a single item by ID
+ * Builds the collection query string from cursor params (no page)
+ * Cursors are opaque server tokens (often base64 with "+", "/" or "="), and
+ * buildQueryString doesn't encode, so they're encoded here
  */
-export const getItem = async <T>(
-  resource: string,
-  id: string
-): Promise<ApiResponse<T>> => {
-  try {
-    const url = `${API_URL}/${resource}/${id}`;
-    const data = await api<T>(url, null, { method: "GET" });
-    return { success: true, data };
-  } catch (error) {
-    return {
-      success: false,
-      message: error instanceof Error ? error.message : "Get failed",
-    };
-  }
+const toCursorQuery = <T>(params: CursorPaginationParams<T>): string => {
+  const { after, before, limit = 10, sort, where } = params;
+  const encodeCursor = (cursor?: string | null) =>
+    cursor == null ? cursor : encodeURIComponent(cursor);
+  return appendSort(
+    buildQueryString({
+      limit,
+      after: encodeCursor(after),
+      before: encodeCursor(before),
+      where,
+    }),
+    sort
+  );
 };
 
 /**
- * Updates an existing item by ID
+ * Sends one request per key in batches of `batchSize`
+ * Every crud call resolves to an ApiResponse, so failures are collected
+ * rather than thrown - the result is always a partial success
  */
-export const updateItem = async <T>(
-  resource: string,
-  id: string,
-  data: Record<string, unknown>,
-  options?: { file?: File; signal?: AbortSignal }
-): Promise<ApiResponse<T>> => {
-  try {
-    const url = `${API_URL}/${resource}/${id}`;
-
-    let result: { doc: T };
-
-    if (options?.file) {
-      result = await fileApi<{ doc: T }>(url, data, {
-        method: "PATCH",
-        file: options.file,
-        signal: options.signal,
+const runBulk = async <T>(
+  keys: string[],
+  send: (index: number) => Promise<ApiResponse<T>>,
+  { batchSize = 5, signal, onProgress }: BulkOptions = {}
+): Promise<BulkResult<T>> => {
+  const result: BulkResult<T> = { succeeded: [], failed: [], data: [] };
+  const total = keys.length;
+
+  for (let start = 0; start < total; start += batchSize) {
+    if (signal?.aborted) {
+      keys.slice(start).forEach((id) => {
+        result.failed.push({ id, message: "Cancelled" });
       });
-    } else {
-      result = await api<{ doc: T }>(url, data, { method: "PATCH" });
+      break;
     }
 
-    return { success: true, data: result.doc };
-  } catch (error) {
-    return {
-      success: false,
-      message: error instanceof Error ? error.message : "Update failed",
-    };
-  }
-};
+    const batch = keys.slice(start, start + batchSize);
+    const responses = await Promise.all(batch.map((_, offset) => send(start + offset)));
 
-/**
- * Deletes an item by ID
- */
-export const deleteItem = async <T>(
-  resource: string,
-  id: string
-): Promise<ApiResponse<T>> => {
-  try {
-    const url = `${API_URL}/${resource}/${id}`;
-    const data = await api<{ doc: T }>(url, null, { method: "DELETE" });
-    return { success: true, data: data.doc };
-  } catch (error) {
-    return {
-      success: false,
-      message: error instanceof Error ? error.message : "Delete failed",
-    };
+    responses.forEach((response, offset) => {
+      const id = batch[offset];
+      if (response.success) {
+        result.succeeded.push(id);
+        if (response.data !== undefined) result.data.push(response.data);
+      } else {
+        result.failed.push({
+          id,
+          message: response.message ?? "Request failed",
+          error: response.error,
+        });
+      }
+    });
+
+    const completed = start + batch.length;
+    onProgress?.({
+      completed,
+      failed: result.failed.length,
+      total,
+      percent: Math.round((completed / total) * 100),
+    });
   }
+
+  return result;
 };
 
 /**
- * Gets a paginated collection of items
+ * Creates CRUD operations bound to an API client
  */
-export const getCollection = async <T>(
-  resource: string,
-  params: PaginationParams = {}
-): Promise<PaginatedResponse<T> | ApiResponse<never>> => {
-  try {
-    const { page = 1, limit = 10, sort, where } = params;
-
-    const queryString = appendSort(
-      buildQueryString({ page, limit, where }),
-      sort
+export const createCrud = (client: ApiClient) => {
+  const { api, fileApi, publicApi, adapterFor } = client;
+
+  /**
+   * Sends a create/update as JSON, multipart, or chunked upload + JSON
+   * Returns the raw body - callers unwrap it with the resource's adapter
+   */
+  const sendMutation = async (
+    url: string,
+    method: "POST" | "PATCH",
+    data: Record<string, unknown>,
+    options: MutationOptions = {}
+  ): Promise<unknown> => {
+    const { file, files, signal, onProgress, chunked } = options;
+    const uploadFiles = collectFiles(file, files);
+
+    if (Object.keys(uploadFiles).length === 0) {
+      return api(url, data, { method, signal });
+    }
+
+    if (chunked) {
+      const _uploads = await uploadFilesChunked(client, uploadFiles, {
+        ...(typeof chunked === "object" ? chunked : {}),
+        signal,
+        onProgress,
+      });
+      return api(url, { ...data, _uploads }, { method, signal });
+    }
+
+    return fileApi(url, data, {
+      method,
+      files: uploadFiles,
+      signal,
+      onProgress,
+    });
+  };
+
+  /**
+   * Unwraps an item with the resource's adapter, then validates it
+   */
+  const toItem = <T>(
+    resource: ResourcePath,
+    body: unknown,
+    { schema, validation }: ResponseValidation<T>
+  ): T =>
+    parseItem(schema, adapterFor(resource).item<T>(body), {
+      resource: resourceUrl(resource),
+      mode: validation,
+    });
+
+  /**
+   * Validates the items of an adapted collection page
+   */
+  const toCollection = <T, TPage extends { data: T[] }>(
+    resource: ResourcePath,
+    page: TPage,
+    { schema, validation }: ResponseValidation<T>
+  ): TPage => ({
+    ...page,
+    data: parseItems(schema, page.data, {
+      resource: resourceUrl(resource),
+      mode: validation,
+    }),
+  });
+
+  /**
+   * Creates a new item in the resource
+   */
+  const createItem = async <T>(
+    resource: ResourcePath,
+    data: Record<string, unknown>,
+    options: MutationOptions & ResponseValidation<T> = {}
+  ): Promise<ApiResponse<T>> => {
+    try {
+      const url = `/${resourceUrl(resource)}`;
+      const body = await sendMutation(url, "POST", data, options);
+      return { success: true, data: toItem(resource, body, options) };
+    } catch (error) {
+      return toFailure(error, "Create failed");
+    }
+  };
+
+  // One batcher per batched resource, created on first getItem
+  const batchers = new Map<string, Batcher<unknown>>();
+
+  /**
+   * Loads a batch of items with one `where[idField][in]` collection request
+   * Items come back adapted but unvalidated - each caller validates its own
+   */
+  const batcherFor = (resource: ResourcePath): Batcher<unknown> | undefined => {
+    const options = batchOptionsFor(resourceName(resource));
+    if (!options) return undefined;
+
+    // Keyed by URL so each parent's children batch separately
+    const path = resourceUrl(resource);
+    let batcher = batchers.get(path);
+    if (!batcher) {
+      const { idField, maxBatchSize } = options;
+
+      batcher = createBatcher(async (ids) => {
+        const where = { [idField]: { in: ids } };
+        const url = `/${path}${toCollectionQuery({ limit: ids.length, where })}`;
+        const body = await api(url, null, { method: "GET" });
+        const { data } = adapterFor(resource).collection<Record<string, unknown>>(body);
+
+        return new Map(data.map((item) => [String(item[idField]), item as unknown]));
+      }, maxBatchSize);
+      batchers.set(path, batcher);
+    }
+
+    return batcher;
+  };
+
+  /**
+   * Gets a single item by ID
+   * Batched into one collection request per tick when the resource is
+   * configured for it (see batch.ts)
+   */
+  const getItem = async <T>(
+    resource: ResourcePath,
+    id: string,
+    options: ResponseValidation<T> = {}
+  ): Promise<ApiResponse<T>> => {
+    try {
+      const batcher = batcherFor(resource);
+      if (batcher) {
+        const item = await batcher.load(id);
+        if (item === undefined) {
+          throw new ApiError(`${resourceUrl(resource)} "${id}" not found`, {
+            status: 404,
+            code: "NOT_FOUND",
+          });
+        }
+        return {
+          success: true,
+          data: parseItem(options.schema, item as T, {
+            resource: resourceUrl(resource),
+            mode: options.validation,
+          }),
+        };
+      }
+
+      const url = `/${resourceUrl(resource)}/${id}`;
+      const body = await api(url, null, { method: "GET" });
+      return { success: true, data: toItem(resource, body, options) };
+    } catch (error) {
+      return toFailure(error, "Get failed");
+    }
+  };
+
+  /**
+   * Updates an existing item by ID
+   */
+  const updateItem = async <T>(
+    resource: ResourcePath,
+    id: string,
+    data: Record<string, unknown>,
+    options: MutationOptions & ResponseValidation<T> = {}
+  ): Promise<ApiResponse<T>> => {
+    try {
+      const url = `/${resourceUrl(resource)}/${id}`;
+      const body = await sendMutation(url, "PATCH", data, options);
+      return { success: true, data: toItem(resource, body, options) };
+    } catch (error) {
+      return toFailure(error, "Update failed");
+    }
+  };
+
+  /**
+   * Deletes an item by ID
+   */
+  const deleteItem = async <T>(
+    resource: ResourcePath,
+    id: string
+  ): Promise<ApiResponse<T>> => {
+    try {
+      const url = `/${resourceUrl(resource)}/${id}`;
+      const body = await api(url, null, { method: "DELETE" });
+      return { success: true, data: adapterFor(resource).item<T>(body) };
+    } catch (error) {
+      return toFailure(error, "Delete failed");
+    }
+  };
+
+  /**
+   * Gets a paginated collection of items
+   */
+  const getCollection = async <T>(
+    resource: ResourcePath,
+    params: PaginationParams<T> = {},
+    options: ResponseValidation<T> = {}
+  ): Promise<PaginatedResponse<T> | ApiResponse<never>> => {
+    try {
+      const url = `/${resourceUrl(resource)}${toCollectionQuery(params)}`;
+      const body = await api(url, null, { method: "GET" });
+      return toCollection(
+        resource,
+        adapterFor(resource).collection<T>(body, params),
+        options
+      );
+    } catch (error) {
+      return toFailure(error, "Get collection failed");
+    }
+  };
+
+  /**
+   * Gets a cursor-paginated collection of items
+   */
+  const getCursorCollection = async <T>(
+    resource: ResourcePath,
+    params: CursorPaginationParams<T> = {},
+    options: ResponseValidation<T> = {}
+  ): Promise<CursorPaginatedResponse<T> | ApiResponse<never>> => {
+    try {
+      const url = `/${resourceUrl(resource)}${toCursorQuery(params)}`;
+      const body = await api(url, null, { method: "GET" });
+      return toCollection(
+        resource,
+        adapterFor(resource).cursorCollection<T>(body),
+        options
+      );
+    } catch (error) {
+      return toFailure(error, "Get collection failed");
+    }
+  };
+
+  // ============ BULK ============
+
+  /**
+   * Creates many items - failures are keyed by input index
+   */
+  const bulkCreate = <T>(
+    resource: ResourcePath,
+    items: Record<string, unknown>[],
+    options?: BulkOptions
+  ): Promise<BulkResult<T>> =>
+    runBulk(
+      items.map((_, index) => String(index)),
+      (index) => createItem<T>(resource, items[index]),
+      options
     );
 
-    const url = `${API_URL}/${resource}${queryString}`;
-    const data = await api<PaginatedResponse<T>>(url, null, { method: "GET" });
+  /**
+   * Applies the same changes to many items (e.g. "mark as read")
+   */
+  const bulkUpdate = <T>(
+    resource: ResourcePath,
+    ids: string[],
+    data: Record<string, unknown>,
+    options?: BulkOptions
+  ): Promise<BulkResult<T>> =>
+    runBulk(ids, (index) => updateItem<T>(resource, ids[index], data), options);
 
-    return data;
-  } catch (error) {
-    return {
-      success: false,
-      message: error instanceof Error ? error.message : "Get collection failed",
-    };
-  }
-};
+  /**
+   * Deletes many items by ID
+   */
+  const bulkDelete = <T>(
+    resource: ResourcePath,
+    ids: string[],
+    options?: BulkOptions
+  ): Promise<BulkResult<T>> =>
+    runBulk(ids, (index) => deleteItem<T>(resource, ids[index]), options);
 
-// ============ PUBLIC (unauthenticated) variants ============
+  // ============ PUBLIC (unauthenticated) variants ============
 
-/**
- * Gets a single item by ID (public endpoint)
- */
-export const getPublicItem = async <T>(
-  resource: string,
-  id: string
-): Promise<ApiResponse<T>> => {
-  try {
-    const url = `${API_URL}/${resource}/${id}`;
-    const data = await publicApi<T>(url, null, { method: "GET" });
-    return { success: true, data };
-  } catch (error) {
-    return {
-      success: false,
-      message: error instanceof Error ? error.message : "Get failed",
-    };
-  }
+  /**
+   * Gets a single item by ID (public endpoint)
+   */
+  const getPublicItem = async <T>(
+    resource: ResourcePath,
+    id: string,
+    options: ResponseValidation<T> = {}
+  ): Promise<ApiResponse<T>> => {
+    try {
+      const url = `/${resourceUrl(resource)}/${id}`;
+      const body = await publicApi(url, null, { method: "GET" });
+      return { success: true, data: toItem(resource, body, options) };
+    } catch (error) {
+      return toFailure(error, "Get failed");
+    }
+  };
+
+  /**
+   * Gets a paginated collection (public endpoint)
+   */
+  const getPublicCollection = async <T>(
+    resource: ResourcePath,
+    params: PaginationParams<T> = {},
+    options: ResponseValidation<T> = {}
+  ): Promise<PaginatedResponse<T> | ApiResponse<never>> => {
+    try {
+      const url = `/${resourceUrl(resource)}${toCollectionQuery(params)}`;
+      const body = await publicApi(url, null, { method: "GET" });
+      return toCollection(
+        resource,
+        adapterFor(resource).collection<T>(body, params),
+        options
+      );
+    } catch (error) {
+      return toFailure(error, "Get collection failed");
+    }
+  };
+
+  /**
+   * Gets a cursor-paginated collection (public endpoint)
+   */
+  const getPublicCursorCollection = async <T>(
+    resource: ResourcePath,
+    params: CursorPaginationParams<T> = {},
+    options: ResponseValidation<T> = {}
+  ): Promise<CursorPaginatedResponse<T> | ApiResponse<never>> => {
+    try {
+      const url = `/${resourceUrl(resource)}${toCursorQuery(params)}`;
+      const body = await publicApi(url, null, { method: "GET" });
+      return toCollection(
+        resource,
+        adapterFor(resource).cursorCollection<T>(body),
+        options
+      );
+    } catch (error) {
+      return toFailure(error, "Get collection failed");
+    }
+  };
+
+  return {
+    createItem,
+    getItem,
+    updateItem,
+    deleteItem,
+    getCollection,
+    getCursorCollection,
+    bulkCreate,
+    bulkUpdate,
+    bulkDelete,
+    getPublicItem,
+    getPublicCollection,
+    getPublicCursorCollection,
+  };
 };
 
-/**
- * Gets a paginated collection (public endpoint)
- */
-export const getPublicCollection = async <T>(
-  resource: string,
-  params: PaginationParams = {}
-): Promise<PaginatedResponse<T> | ApiResponse<never>> => {
-  try {
-    const { page = 1, limit = 10, sort, where } = params;
-
-    const queryString = appendSort(
-      buildQueryString({ page, limit, where }),
-      sort
-    );
+export type Crud = ReturnType<typeof createCrud>;
 
-    const url = `${API_URL}/${resource}${queryString}`;
-    const data = await publicApi<PaginatedResponse<T>>(url, null, {
-      method: "GET",
-    });
+// ============ DEFAULT CLIENT ============
+
+export const crud = createCrud(apiClient);
 
-    return data;
-  } catch (error) {
-    return {
-      success: false,
-      message: error instanceof Error ? error.message : "Get collection failed",
-    };
+const crudByClient = new WeakMap<ApiClient, Crud>([[apiClient, crud]]);
+
+/**
+ * Returns the (cached) CRUD set for a client - the default when omitted
+ * Used by the hooks so a `client` param doesn't rebuild functions each render
+ */
+export const getCrud = (client: ApiClient = apiClient): Crud => {
+  let bound = crudByClient.get(client);
+  if (!bound) {
+    bound = createCrud(client);
+    crudByClient.set(client, bound);
   }
+  return bound;
 };
+
+export const {
+  createItem,
+  getItem,
+  updateItem,
+  deleteItem,
+  getCollection,
+  getCursorCollection,
+  bulkCreate,
+  bulkUpdate,
+  bulkDelete,
+  getPublicItem,
+  getPublicCollection,
+  getPublicCursorCollection,
+} = crud;
@@ -0,0 +1,267 @@
+/**
+ * One typed definition per entity: CRUD functions, hooks and cache helpers
+ *
+ * The zod schemas are the single source of truth for the item and input
+ * types, so components never repeat `useResource<UserInput, User>` generics.
+ *
+ * Usage:
+ *   // lib/resources/users.ts
+ *   export const users = defineResource({
+ *     name: "users",
+ *     schema: userSchema,            // z.object({ id: z.string(), ... })
+ *     inputSchema: userInputSchema,  // Optional, defaults to schema
+ *   });
+ *
+ *   // Component
+ *   const { data: user, updateItem } = users.useOne(userId);
+ *   const { data: list } = users.useList({ where: { role: { equals: "admin" } } });
+ *   const createUser = users.useCreate();
+ *
+ *   // Outside React (loaders, event handlers)
+ *   const result = await users.get(userId);
+ *   users.invalidateLists();
+ */
+
+import type { z } from "zod";
+import { getCrud, type MutationOptions } from "./crud";
+import { toFieldMap, ValidationError } from "./errors";
+import {
+  invalidateDetail,
+  invalidateLists,
+  invalidateResource,
+  queryClient,
+  queryKeys,
+  removeFromCache,
+} from "./cache";
+import useResource, { useCreateResource, type UseResourceParams } from "./useResource";
+import usePaginatedResource, {
+  type UsePaginatedResourceParams,
+} from "./usePaginatedResource";
+import type {
+  ApiClient,
+  ApiResponse,
+  CursorPaginatedResponse,
+  CursorPaginationParams,
+  PaginatedResponse,
+  PaginationParams,
+  ResourceEndpoints,
+  ResourceItem,
+  ResponseSchema,
+  UseResourceReturn,
+  ValidationMode,
+} from "./types";
+
+interface ResourceDefinition<
+  TSchema extends z.ZodTypeAny,
+  TInputSchema extends z.ZodTypeAny,
+> {
+  // Resource name - the cache key and, unless overridden, the request path
+  name: string;
+  // Shape of items returned by the API - responses are validated against it
+  schema: TSchema;
+  // Shape of create/update payloads (types default to `schema`) - when set,
+  // payloads are checked before they're sent
+  inputSchema?: TInputSchema;
+  // Field that identifies an item (defaults to "id")
+  idField?: keyof z.infer<TSchema> & string;
+  // Per-operation request paths, e.g. { list: "admin/users" }
+  endpoints?: ResourceEndpoints;
+  // Response validation mode (see validation.ts)
+  validation?: ValidationMode;
+  // Defaults to the app-wide apiClient
+  client?: ApiClient;
+}
+
+// Hook params the definition already fixes
+type HookOptions<T> = Omit<
+  T,
+  "resource" | "id" | "client" | "endpoints" | "endpoint" | "schema"
+>;
+
+export const defineResource = <
+  TSchema extends z.ZodTypeAny,
+  TInputSchema extends z.ZodTypeAny = TSchema,
+>({
+  name,
+  schema,
+  inputSchema,
+  idField,
+  endpoints = {},
+  validation,
+  client,
+}: ResourceDefinition<TSchema, TInputSchema>) => {
+  type TItem = z.infer<TSchema> & ResourceItem;
+  type TInput = z.infer<TInputSchema>;
+  type ListParams = PaginationParams<TItem>;
+
+  const crud = getCrud(client);
+  const validate = { schema: schema as ResponseSchema<TItem>, validation };
+  const idKey = (idField ?? "id") as keyof TItem;
+  const path = (operation: keyof ResourceEndpoints) => endpoints[operation] ?? name;
+
+  /**
+   * Reads the identifying field of an item
+   */
+  const getId = (item: TItem): string => String(item[idKey]);
+
+  /**
+   * Checks a payload against `inputSchema`, failing the way a server 422
+   * would so forms can map the issues onto fields. Updates send only the
+   * changed fields, so `partial` skips issues about fields not in `data`.
+   */
+  const checkInput = (data: unknown, partial = false): ApiResponse<never> | null => {
+    const result = inputSchema?.safeParse(data);
+    if (!result || result.success) return null;
+
+    const sent = (data ?? {}) as Record<PropertyKey, unknown>;
+    const issues = partial
+      ? result.error.issues.filter(({ path }) => path.length > 0 && path[0] in sent)
+      : result.error.issues;
+    if (issues.length === 0) return null;
+
+    const error = new ValidationError("Validation failed", toFieldMap(issues), {
+      details: issues,
+    });
+    return { success: false, message: error.message, error };
+  };
+
+  // ============ FUNCTIONS ============
+
+  const get = (id: string): Promise<ApiResponse<TItem>> =>
+    crud.getItem<TItem>(path("get"), id, validate);
+
+  const list = (
+    params?: ListParams
+  ): Promise<PaginatedResponse<TItem> | ApiResponse<never>> =>
+    crud.getCollection<TItem>(path("list"), params, validate);
+
+  const listCursor = (
+    params?: CursorPaginationParams<TItem>
+  ): Promise<CursorPaginatedResponse<TItem> | ApiResponse<never>> =>
+    crud.getCursorCollection<TItem>(path("list"), params, validate);
+
+  const create = async (
+    data: TInput,
+    options?: MutationOptions
+  ): Promise<ApiResponse<TItem>> => {
+    const invalid = checkInput(data);
+    if (invalid) return invalid;
+
+    const result = await crud.createItem<TItem>(
+      path("create"),
+      data as Record<string, unknown>,
+      { ...options, ...validate }
+    );
+
+    if (result.success && result.data) {
+      // Seed the detail query so navigating to the new item is instant
+      queryClient.setQueryData(queryKeys.detail(name, getId(result.data)), result);
+      invalidateLists(name);
+    }
+
+    return result;
+  };
+
+  const update = async (
+    id: string,
+    data: Partial<TInput>,
+    options?: MutationOptions
+  ): Promise<ApiResponse<TItem>> => {
+    const invalid = checkInput(data, true);
+    if (invalid) return invalid;
+
+    const result = await crud.updateItem<TItem>(
+      path("update"),
+      id,
+      data as Record<string, unknown>,
+      { ...options, ...validate }
+    );
+    if (result.success) invalidateResource(name);
+    return result;
+  };
+
+  const remove = async (id: string): Promise<ApiResponse<TItem>> => {
+    const result = await crud.deleteItem<TItem>(path("remove"), id);
+
+    if (result.success) {
+      removeFromCache(name, id);
+      invalidateResource(name);
+    }
+
+    return result;
+  };
+
+  // ============ HOOKS ============
+
+  const useOne = (
+    id?: string | null,
+    options: HookOptions<UseResourceParams<TItem>> = {}
+  ): UseResourceReturn<TInput, TItem> => {
+    const resource = useResource<TInput, TItem>({
+      ...validate,
+      ...options,
+      resource: name,
+      id,
+      client,
+      endpoints,
+      getId,
+    });
+
+    return {
+      ...resource,
+      createItem: async (item, uploadOptions) =>
+        checkInput(item) ?? resource.createItem(item, uploadOptions),
+      updateItem: async (item, uploadOptions) =>
+        checkInput(item, true) ?? resource.updateItem(item, uploadOptions),
+    };
+  };
+
+  const useList = (
+    params: HookOptions<UsePaginatedResourceParams<TItem>> = {}
+  ) =>
+    usePaginatedResource<TItem>({
+      ...validate,
+      ...params,
+      resource: name,
+      client,
+      endpoint: path("list"),
+    });
+
+  const useCreate = () => {
+    const createItem = useCreateResource<TInput, TItem>(
+      name,
+      client,
+      path("create"),
+      validate
+    );
+    return async (data: TInput): Promise<ApiResponse<TItem>> =>
+      checkInput(data) ?? createItem(data);
+  };
+
+  // ============ CACHE ============
+
+  const keys = {
+    all: () => queryKeys.all(name),
+    detail: (id: string) => queryKeys.detail(name, id),
+    lists: () => queryKeys.lists(name),
+    list: (params: ListParams) => queryKeys.list(name, params),
+  };
+
+  return {
+    name,
+    getId,
+    keys,
+    get,
+    list,
+    listCursor,
+    create,
+    update,
+    remove,
+    useOne,
+    useList,
+    useCreate,
+    invalidate: () => invalidateResource(name),
+    invalidateOne: (id: string) => invalidateDetail(name, id),
+    invalidateLists: (filter?: ListParams) => invalidateLists<TItem>(name, filter),
+  };
+};
@@ -0,0 +1,224 @@
+/**
+ * Typed error hierarchy for the data fetching layer
+ *
+ * Every failure thrown by api()/fileApi() is an ApiError (or subclass), and
+ * every failed crud.ts call carries one on `ApiResponse.error`.
+ *
+ * Usage:
+ *   const result = await getItem<User>("users", id);
+ *   if (!result.success) {
+ *     if (result.error instanceof NetworkError) showOfflineBanner();
+ *     else if (result.error?.status === 404) navigate("/not-found");
+ *   }
+ */
+
+import type { SchemaIssue } from "./types";
+
+// Error body returned by the backend error handler
+// Shape: { error, code?, details? } (see backend/plan/services/patterns.md)
+interface ErrorBody {
+  error?: string;
+  message?: string;
+  code?: string;
+  details?: unknown;
+}
+
+// Zod issue as serialised by the backend's global error handler
+interface ZodIssueLike {
+  path: (string | number)[];
+  message: string;
+}
+
+interface ApiErrorOptions {
+  status?: number;
+  code?: string;
+  details?: unknown;
+  cause?: unknown;
+}
+
+/**
+ * Base error for any failed API call
+ * `status` is the HTTP status, or 0 when no response was received
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly details?: unknown;
+
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = "ApiError";
+    this.status = options.status ?? 0;
+    this.code = options.code ?? "API_ERROR";
+    this.details = options.details;
+  }
+}
+
+/**
+ * Request never reached the server (offline, DNS, CORS, connection reset)
+ */
+export class NetworkError extends ApiError {
+  constructor(message = "Network request failed", cause?: unknown) {
+    super(message, { status: 0, code: "NETWORK_ERROR", cause });
+    this.name = "NetworkError";
+  }
+}
+
+/**
+ * Session could not be refreshed - the user must log in again
+ */
+export class AuthExpiredError extends ApiError {
+  constructor(message = "Session expired. Please log in again.") {
+    super(message, { status: 401, code: "AUTH_EXPIRED" });
+    this.name = "AuthExpiredError";
+  }
+}
+
+/**
+ * Server rejected the payload
+ * `fields` maps dot-paths (e.g. "address.city", "items.0.qty") to messages
+ */
+export class ValidationError extends ApiError {
+  readonly fields: Record<string, string>;
+
+  constructor(
+    message = "Validation failed",
+    fields: Record<string, string> = {},
+    options: ApiErrorOptions = {}
+  ) {
+    super(message, {
+      ...options,
+      status: options.status ?? 422,
+      code: options.code ?? "VALIDATION_ERROR",
+    });
+    this.name = "ValidationError";
+    this.fields = fields;
+  }
+}
+
+/**
+ * Too many requests - `retryAfter` is in seconds when the server sent it
+ */
+export class RateLimitedError extends ApiError {
+  readonly retryAfter?: number;
+
+  constructor(message = "Too many requests", retryAfter?: number) {
+    super(message, { status: 429, code: "RATE_LIMITED" });
+    this.name = "RateLimitedError";
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Response arrived but didn't match its schema (backend/frontend drift)
+ * `issues` paths are relative to the response, e.g. [0, "email"] for a list
+ */
+export class SchemaMismatchError extends ApiError {
+  readonly resource: string;
+  readonly issues: SchemaIssue[];
+
+  constructor(resource: string, issues: SchemaIssue[]) {
+    super(`Unexpected response shape for "${resource}"`, {
+      status: 200,
+      code: "SCHEMA_MISMATCH",
+      details: issues,
+    });
+    this.name = "SchemaMismatchError";
+    this.resource = resource;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Parses a Retry-After header (delta-seconds or HTTP date) into seconds
+ */
+export const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds);
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return undefined;
+
+  return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+};
+
+/**
+ * Normalises validation details into a flat dot-path field map
+ * Accepts `{ field: "msg" }` objects and zod issue arrays
+ */
+export const toFieldMap = (details: unknown): Record<string, string> => {
+  if (Array.isArray(details)) {
+    return (details as ZodIssueLike[]).reduce<Record<string, string>>(
+      (fields, issue) => {
+        if (issue?.path && issue.message) {
+          const path = issue.path.join(".");
+          fields[path] ??= issue.message;
+        }
+        return fields;
+      },
+      {}
+    );
+  }
+
+  if (details && typeof details === "object") {
+    return Object.fromEntries(
+      Object.entries(details as Record<string, unknown>)
+        .filter(([, value]) => typeof value === "string")
+    ) as Record<string, string>;
+  }
+
+  return {};
+};
+
+/**
+ * Builds the matching ApiError subclass from a non-ok Response
+ */
+export const createApiError = async (res: Response): Promise<ApiError> => {
+  const body: ErrorBody = await res.json().catch(() => ({}));
+  const message = body.message || body.error || `Request failed: ${res.status}`;
+
+  if (res.status === 429) {
+    return new RateLimitedError(
+      message,
+      parseRetryAfter(res.headers.get("Retry-After"))
+    );
+  }
+
+  if (res.status === 422 || (res.status === 400 && body.details)) {
+    return new ValidationError(message, toFieldMap(body.details), {
+      status: res.status,
+      code: body.code,
+      details: body.details,
+    });
+  }
+
+  return new ApiError(message, {
+    status: res.status,
+    code: body.code,
+    details: body.details,
+  });
+};
+
+/**
+ * Coerces anything caught in a try/catch into an ApiError
+ */
+export const toApiError = (error: unknown, fallbackMessage: string): ApiError => {
+  if (error instanceof ApiError) return error;
+
+  if (error instanceof Error) {
+    return new ApiError(error.message || fallbackMessage, {
+      code: error.name === "AbortError" ? "ABORTED" : undefined,
+      cause: error,
+    });
+  }
+
+  return new ApiError(fallbackMessage, { cause: error });
+};
+
+/**
+ * True when the request was cancelled via AbortSignal
+ */
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === "AbortError";
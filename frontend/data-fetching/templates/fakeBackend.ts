@@ -0,0 +1,762 @@
+/**
+ * In-memory REST backend for tests, Storybook-style demos and offline work
+ *
+ * A fetch handler that speaks the contract crud.ts expects, so anything
+ * built on api() / useResource / usePaginatedResource runs with no network:
+ *   GET    /{resource}?page&limit&sort&where → { docs, totalDocs, page, ... }
+ *   GET    /{resource}?limit&after&before    → { docs, pageInfo } | 400 (cursor)
+ *   GET    /{resource}/{id}                  → { doc } | 404
+ *   POST   /{resource}                       → 201 { doc } (JSON or multipart)
+ *   PATCH  /{resource}/{id}                  → { doc }
+ *   DELETE /{resource}/{id}                  → { doc }
+ *   POST   {refreshPath}                     → 200 | 401 (see expireSession)
+ *   POST|GET|PUT /uploads[/{id}]        → chunked upload sessions (upload.ts)
+ * `where` supports every operator in where.ts (plus and/or) and `sort` takes
+ * "field,-other". A repeated Idempotency-Key returns the first response.
+ *
+ * Usage:
+ *   // Test setup - a client bound to the fake
+ *   const backend = createFakeBackend({
+ *     resources: {
+ *       users: { seed: [{ id: "u1", name: "Ada", status: "active" }] },
+ *       orders: { latency: [100, 400], fail: { status: 503, rate: 0.1 } },
+ *     },
+ *   });
+ *   const client = createApiClient({
+ *     baseUrl: backend.baseUrl,
+ *     refreshUrl: `${backend.baseUrl}/users/refresh-token`,
+ *     fetch: backend.fetch,
+ *   });
+ *
+ *   // Or replace global fetch (and XMLHttpRequest, which uploads with
+ *   // progress use) so the default apiClient uses it
+ *   const restore = backend.install();
+ *   afterEach(restore);
+ *
+ *   // Assertions / scenarios
+ *   backend.expireSession();   // next authed request → 401 → refresh → replay
+ *   expect(backend.items("users")).toHaveLength(2);
+ *   expect(backend.requests.at(-1)?.method).toBe("POST");
+ */
+
+import { parse } from "qs";
+
+const DEFAULT_BASE_URL = "http://localhost:3000/api";
+const DEFAULT_REFRESH_PATH = "/users/refresh-token";
+const UPLOADS_PATH = "uploads";
+
+type Item = Record<string, unknown>;
+type Query = Record<string, unknown>;
+
+// Injected failure; status 0 simulates a dropped connection (NetworkError)
+export interface FakeFailure {
+  status: number;
+  message?: string;
+  code?: string;
+  // e.g. zod-style issues for a 422 - becomes ValidationError.fields
+  details?: unknown;
+  // Seconds, sent as Retry-After
+  retryAfter?: number;
+  // Share of requests that fail (default 1 = every request)
+  rate?: number;
+  // Only these methods fail (default all)
+  methods?: string[];
+}
+
+// One request as the fake saw it - kept in `requests` for assertions
+export interface FakeRequest {
+  method: string;
+  // Relative to baseUrl, without the query string
+  path: string;
+  query: Query;
+  body?: unknown;
+  headers: Record<string, string>;
+  authenticated: boolean;
+}
+
+export interface FakeRouteOptions {
+  seed?: Item[];
+  // Delay in ms, or a [min, max] range
+  latency?: number | [number, number];
+  fail?: FakeFailure | ((request: FakeRequest) => FakeFailure | undefined);
+  // Reject unauthenticated (public) requests with 401 (default true)
+  requireAuth?: boolean;
+}
+
+interface FakeBackendOptions {
+  baseUrl?: string;
+  resources: Record<string, FakeRouteOptions>;
+  // Applied to routes without their own latency
+  latency?: number | [number, number];
+  refreshPath?: string;
+}
+
+interface UploadSession {
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  uploadedBytes: number;
+}
+
+type SessionState = "valid" | "expired" | "revoked";
+
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(status === 204 ? null : JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+
+const errorResponse = (
+  status: number,
+  message: string,
+  extra: Pick<FakeFailure, "code" | "details" | "retryAfter"> = {}
+) =>
+  json(
+    { error: message, code: extra.code, details: extra.details },
+    status,
+    extra.retryAfter !== undefined ? { "Retry-After": String(extra.retryAfter) } : {}
+  );
+
+const abortError = () => new DOMException("The operation was aborted.", "AbortError");
+
+const delay = (ms: number, signal?: AbortSignal | null): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(abortError());
+      },
+      { once: true }
+    );
+  });
+
+const pickLatency = (latency: number | [number, number] = 0): number =>
+  Array.isArray(latency)
+    ? latency[0] + Math.random() * (latency[1] - latency[0])
+    : latency;
+
+// ============ QUERY EVALUATION ============
+
+/**
+ * Values at a dot-path; arrays along the way are flattened (any element matches)
+ */
+const valuesAt = (item: unknown, path: string): unknown[] =>
+  path.split(".").reduce<unknown[]>(
+    (values, key) =>
+      values.flatMap((value) => {
+        if (Array.isArray(value)) return value.map((entry) => (entry as Item)?.[key]);
+        return value && typeof value === "object" ? [(value as Item)[key]] : [];
+      }),
+    [item]
+  );
+
+// Query values arrive as strings - compare against the item's own type
+const coerce = (expected: unknown, value: unknown): unknown => {
+  if (typeof value !== "string") return value;
+  if (value === "null") return null;
+  if (typeof expected === "number") return Number(value);
+  if (typeof expected === "boolean") return value === "true";
+  return value;
+};
+
+const toList = (value: unknown): unknown[] => {
+  if (Array.isArray(value)) return value;
+  if (value && typeof value === "object") return Object.values(value);
+  return String(value).split(",");
+};
+
+const compare = (a: unknown, b: unknown): number => {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a ?? "").localeCompare(String(b ?? ""));
+};
+
+const matchesOperator = (actual: unknown, operator: string, raw: unknown): boolean => {
+  const value = coerce(actual, raw);
+
+  switch (operator) {
+    case "equals":
+      return actual === value || (value === null && actual === undefined);
+    case "not_equals":
+      return actual !== value;
+    case "in":
+      return toList(raw).some((entry) => actual === coerce(actual, entry));
+    case "not_in":
+      return !toList(raw).some((entry) => actual === coerce(actual, entry));
+    case "exists":
+      return (actual !== undefined && actual !== null) === (String(raw) === "true");
+    case "contains":
+      return String(actual ?? "").toLowerCase().includes(String(raw).toLowerCase());
+    case "like":
+      return String(raw)
+        .toLowerCase()
+        .split(/\s+/)
+        .every((word) => String(actual ?? "").toLowerCase().includes(word));
+    case "greater_than":
+      return actual != null && compare(actual, value) > 0;
+    case "greater_than_equal":
+      return actual != null && compare(actual, value) >= 0;
+    case "less_than":
+      return actual != null && compare(actual, value) < 0;
+    case "less_than_equal":
+      return actual != null && compare(actual, value) <= 0;
+    default:
+      return true;
+  }
+};
+
+const matchesWhere = (item: Item, where: unknown): boolean => {
+  if (!where || typeof where !== "object") return true;
+
+  return Object.entries(where as Record<string, unknown>).every(([key, clause]) => {
+    if (key === "and") return toList(clause).every((sub) => matchesWhere(item, sub));
+    if (key === "or") return toList(clause).some((sub) => matchesWhere(item, sub));
+
+    const values = valuesAt(item, key);
+    const candidates = values.length > 0 ? values : [undefined];
+
+    return Object.entries(clause as Record<string, unknown>).every(([operator, raw]) =>
+      operator === "not_equals" || operator === "not_in"
+        ? candidates.every((actual) => matchesOperator(actual, operator, raw))
+        : candidates.some((actual) => matchesOperator(actual, operator, raw))
+    );
+  });
+};
+
+const sortItems = (items: Item[], sort: unknown): Item[] => {
+  if (!sort) return items;
+  const fields = toList(sort).map(String).filter(Boolean);
+
+  return [...items].sort((a, b) => {
+    for (const field of fields) {
+      const descending = field.startsWith("-");
+      const path = descending ? field.slice(1) : field;
+      const order = compare(valuesAt(a, path)[0], valuesAt(b, path)[0]);
+      if (order !== 0) return descending ? -order : order;
+    }
+    return 0;
+  });
+};
+
+const toNumber = (value: unknown, fallback: number): number => {
+  const number = Number(value);
+  return value === undefined || Number.isNaN(number) ? fallback : number;
+};
+
+// ============ XHR ============
+
+type FetchHandler = (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+
+// Bytes in a request body, for upload progress (0 when unknown)
+const bodySize = (body: XMLHttpRequestBodyInit | null | undefined): number => {
+  if (body instanceof Blob) return body.size;
+  if (typeof body === "string") return new Blob([body]).size;
+  if (body instanceof FormData) {
+    return [...body.values()].reduce(
+      (sum, value) => sum + (typeof value === "string" ? value.length : value.size),
+      0
+    );
+  }
+  return 0;
+};
+
+/**
+ * XMLHttpRequest stand-in used by install() - upload.ts sends files with XHR
+ * for progress events, and those never reach a fetch stub. Covers only what
+ * xhrFetch uses; URLs outside `root` go to the real XMLHttpRequest.
+ */
+const createFakeXhr = (
+  root: string,
+  handle: FetchHandler,
+  RealXhr: typeof XMLHttpRequest | undefined
+) =>
+  class FakeXMLHttpRequest {
+    withCredentials = false;
+    responseType: XMLHttpRequestResponseType = "";
+    status = 0;
+    response: unknown = null;
+    upload: { onprogress: ((event: ProgressEvent) => void) | null } = {
+      onprogress: null,
+    };
+    onload: (() => void) | null = null;
+    onerror: (() => void) | null = null;
+    onabort: (() => void) | null = null;
+
+    private method = "GET";
+    private url = "";
+    private headers: Record<string, string> = {};
+    private responseHeaders = "";
+    private controller = new AbortController();
+    private real: XMLHttpRequest | null = null;
+
+    open(method: string, url: string | URL) {
+      this.method = method;
+      this.url = String(url);
+    }
+
+    setRequestHeader(name: string, value: string) {
+      this.headers[name] = value;
+    }
+
+    getAllResponseHeaders(): string {
+      return this.real ? this.real.getAllResponseHeaders() : this.responseHeaders;
+    }
+
+    abort() {
+      if (this.real) this.real.abort();
+      else this.controller.abort();
+    }
+
+    send(body?: XMLHttpRequestBodyInit | null) {
+      if (!this.url.startsWith(root)) {
+        this.sendReal(body);
+        return;
+      }
+
+      const total = bodySize(body);
+      handle(this.url, {
+        method: this.method,
+        headers: this.headers,
+        body: body ?? null,
+        credentials: this.withCredentials ? "include" : "same-origin",
+        signal: this.controller.signal,
+      })
+        .then(async (response) => {
+          // The fake reads the body in one go, so progress jumps to 100%
+          this.upload.onprogress?.({
+            lengthComputable: total > 0,
+            loaded: total,
+            total,
+          } as ProgressEvent);
+
+          this.status = response.status;
+          this.responseHeaders = [...response.headers]
+            .map(([name, value]) => `${name}: ${value}`)
+            .join("\r\n");
+          this.response =
+            this.responseType === "blob"
+              ? await response.blob()
+              : await response.text();
+          this.onload?.();
+        })
+        .catch((error: unknown) => {
+          if (error instanceof DOMException && error.name === "AbortError") {
+            this.onabort?.();
+          } else this.onerror?.();
+        });
+    }
+
+    private sendReal(body?: XMLHttpRequestBodyInit | null) {
+      if (!RealXhr) {
+        setTimeout(() => this.onerror?.());
+        return;
+      }
+
+      const xhr = new RealXhr();
+      this.real = xhr;
+      xhr.open(this.method, this.url);
+      xhr.withCredentials = this.withCredentials;
+      xhr.responseType = this.responseType;
+      Object.entries(this.headers).forEach(([name, value]) =>
+        xhr.setRequestHeader(name, value)
+      );
+      xhr.upload.onprogress = (event) => this.upload.onprogress?.(event);
+      xhr.onload = () => {
+        this.status = xhr.status;
+        this.response = xhr.response;
+        this.onload?.();
+      };
+      xhr.onerror = () => this.onerror?.();
+      xhr.onabort = () => this.onabort?.();
+      xhr.send(body);
+    }
+  };
+
+// ============ BACKEND ============
+
+/**
+ * Creates an in-memory backend; nothing is shared between instances
+ */
+export const createFakeBackend = ({
+  baseUrl = DEFAULT_BASE_URL,
+  resources,
+  latency: defaultLatency = 0,
+  refreshPath = DEFAULT_REFRESH_PATH,
+}: FakeBackendOptions) => {
+  const root = baseUrl.replace(/\/$/, "");
+  const routes = new Map<string, FakeRouteOptions>();
+  const store = new Map<string, Item[]>();
+  const uploads = new Map<string, UploadSession>();
+  const idempotent = new Map<string, { status: number; body: unknown }>();
+  const requests: FakeRequest[] = [];
+  let session: SessionState = "valid";
+
+  const seed = (resource: string, items: Item[] = []) => {
+    store.set(
+      resource,
+      items.map((item) => ({ id: crypto.randomUUID(), ...structuredClone(item) }))
+    );
+  };
+
+  const reset = () => {
+    routes.clear();
+    uploads.clear();
+    idempotent.clear();
+    requests.length = 0;
+    session = "valid";
+    Object.entries(resources).forEach(([resource, options]) => {
+      routes.set(resource, options);
+      seed(resource, options.seed);
+    });
+  };
+  reset();
+
+  /**
+   * Splits a path into a configured resource and an optional item ID
+   * Longest match wins, so "orgs/o1/projects" can sit next to "orgs"
+   */
+  const resolveRoute = (path: string): { resource: string; id?: string } | null => {
+    const segments = path.split("/").filter(Boolean);
+
+    for (let length = segments.length; length > 0; length -= 1) {
+      const resource = segments.slice(0, length).join("/");
+      if (!routes.has(resource)) continue;
+
+      const rest = segments.slice(length);
+      if (rest.length === 0) return { resource };
+      if (rest.length === 1) return { resource, id: rest[0] };
+      return null;
+    }
+    return null;
+  };
+
+  const readBody = async (init: RequestInit): Promise<unknown> => {
+    const { body } = init;
+    if (body == null) return undefined;
+    if (typeof body === "string") return body ? JSON.parse(body) : undefined;
+    if (body instanceof FormData) return body;
+    if (body instanceof Blob) return body;
+    return undefined;
+  };
+
+  /**
+   * Multipart bodies: `_payload` JSON plus files stored as metadata
+   */
+  const toData = (body: unknown): Item => {
+    if (!(body instanceof FormData)) return (body as Item) ?? {};
+
+    const data: Item = JSON.parse(String(body.get("_payload") ?? "{}"));
+    const files: Record<string, Item[]> = {};
+
+    body.forEach((value, field) => {
+      if (field === "_payload" || !(value instanceof File)) return;
+      (files[field] ??= []).push({
+        filename: value.name,
+        mimeType: value.type,
+        filesize: value.size,
+        url: `/${UPLOADS_PATH}/${encodeURIComponent(value.name)}`,
+      });
+    });
+
+    Object.entries(files).forEach(([field, list]) => {
+      data[field] = list.length === 1 ? list[0] : list;
+    });
+    return data;
+  };
+
+  /**
+   * Chunked uploads referenced as `_uploads: { field: uploadId }`
+   */
+  const attachUploads = (data: Item): Item => {
+    const { _uploads, ...rest } = data;
+    if (!_uploads || typeof _uploads !== "object") return data;
+
+    const toFile = (uploadId: string) => {
+      const upload = uploads.get(uploadId);
+      return upload
+        ? {
+            filename: upload.fileName,
+            mimeType: upload.mimeType,
+            filesize: upload.fileSize,
+            url: `/${UPLOADS_PATH}/${uploadId}`,
+          }
+        : null;
+    };
+
+    Object.entries(_uploads as Record<string, string | string[]>).forEach(
+      ([field, ids]) => {
+        rest[field] = Array.isArray(ids) ? ids.map(toFile) : toFile(ids);
+      }
+    );
+    return rest;
+  };
+
+  const handleUploads = async (
+    method: string,
+    id: string | undefined,
+    body: unknown,
+    headers: Record<string, string>
+  ): Promise<Response> => {
+    if (method === "POST" && !id) {
+      const { fileName, fileSize, mimeType } = body as UploadSession;
+      const uploadId = crypto.randomUUID();
+      uploads.set(uploadId, { fileName, fileSize, mimeType, uploadedBytes: 0 });
+      return json({ uploadId }, 201);
+    }
+
+    const upload = id ? uploads.get(id) : undefined;
+    if (!upload) return errorResponse(404, "Upload not found");
+
+    if (method === "PUT") {
+      // Content-Range: bytes start-end/total
+      const range = /bytes (\d+)-(\d+)/.exec(headers["content-range"] ?? "");
+      if (range && Number(range[1]) !== upload.uploadedBytes) {
+        return errorResponse(409, "Chunk out of order");
+      }
+      upload.uploadedBytes += body instanceof Blob ? body.size : 0;
+    }
+
+    return json({ uploadedBytes: upload.uploadedBytes });
+  };
+
+  const handleCollection = (resource: string, query: Query): Response => {
+    const matched = sortItems(
+      (store.get(resource) ?? []).filter((item) => matchesWhere(item, query.where)),
+      query.sort
+    );
+    const limit = Math.max(1, toNumber(query.limit, 10));
+
+    // crud.ts sends `page` for offset lists and never for cursor lists
+    if (query.page === undefined) {
+      const cursor = query.before || query.after;
+      const at = cursor ? matched.findIndex((item) => String(item.id) === cursor) : -1;
+      if (cursor && at === -1) return errorResponse(400, `Unknown cursor "${cursor}"`);
+
+      // `before` pages backwards: the `limit` rows just before the cursor
+      const start = query.before ? Math.max(0, at - limit) : query.after ? at + 1 : 0;
+      const end = query.before ? at : Math.min(matched.length, start + limit);
+      const docs = matched.slice(start, end);
+
+      return json({
+        docs,
+        totalDocs: matched.length,
+        pageInfo: {
+          startCursor: docs[0]?.id ?? null,
+          endCursor: docs.at(-1)?.id ?? null,
+          hasNextPage: end < matched.length,
+          hasPreviousPage: start > 0,
+        },
+      });
+    }
+
+    const page = Math.max(1, toNumber(query.page, 1));
+    const totalPages = Math.max(1, Math.ceil(matched.length / limit));
+
+    return json({
+      docs: matched.slice((page - 1) * limit, page * limit),
+      totalDocs: matched.length,
+      totalPages,
+      page,
+      limit,
+      hasNextPage: page < totalPages,
+      hasPrevPage: page > 1,
+      nextPage: page < totalPages ? page + 1 : null,
+      prevPage: page > 1 ? page - 1 : null,
+    });
+  };
+
+  const handleResource = (
+    method: string,
+    resource: string,
+    id: string | undefined,
+    query: Query,
+    body: unknown
+  ): Response => {
+    const items = store.get(resource) ?? [];
+
+    if (!id) {
+      if (method === "GET") return handleCollection(resource, query);
+      if (method !== "POST") return errorResponse(405, "Method not allowed");
+
+      const now = new Date().toISOString();
+      const doc = {
+        id: crypto.randomUUID(),
+        ...attachUploads(toData(body)),
+        createdAt: now,
+        updatedAt: now,
+      };
+      store.set(resource, [...items, doc]);
+      return json({ doc, message: "Created" }, 201);
+    }
+
+    const existing = items.find((item) => String(item.id) === id);
+    if (!existing) return errorResponse(404, `${resource} "${id}" not found`);
+
+    if (method === "GET") return json({ doc: existing });
+
+    if (method === "PATCH" || method === "PUT") {
+      const doc = {
+        ...(method === "PATCH" ? existing : { id: existing.id }),
+        ...attachUploads(toData(body)),
+        id: existing.id,
+        createdAt: existing.createdAt,
+        updatedAt: new Date().toISOString(),
+      };
+      store.set(
+        resource,
+        items.map((item) => (item === existing ? doc : item))
+      );
+      return json({ doc, message: "Updated" });
+    }
+
+    if (method === "DELETE") {
+      store.set(
+        resource,
+        items.filter((item) => item !== existing)
+      );
+      return json({ doc: existing, message: "Deleted" });
+    }
+
+    return errorResponse(405, "Method not allowed");
+  };
+
+  const injectedFailure = (
+    route: FakeRouteOptions | undefined,
+    request: FakeRequest
+  ): FakeFailure | undefined => {
+    const failure =
+      typeof route?.fail === "function" ? route.fail(request) : route?.fail;
+    if (!failure) return undefined;
+    if (failure.methods && !failure.methods.includes(request.method)) return undefined;
+    return Math.random() < (failure.rate ?? 1) ? failure : undefined;
+  };
+
+  /**
+   * fetch()-compatible handler - pass as createApiClient({ fetch })
+   */
+  const handle = async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    const method = (init.method ?? "GET").toUpperCase();
+    const path = url.href.slice(root.length).split("?")[0];
+    // Headers lower-cases the names
+    const headers = Object.fromEntries(new Headers(init.headers));
+
+    const request: FakeRequest = {
+      method,
+      path,
+      query: parse(url.search, {
+        ignoreQueryPrefix: true,
+        depth: 10,
+        arrayLimit: 1000,
+      }),
+      body: await readBody(init),
+      headers,
+      authenticated: init.credentials === "include",
+    };
+    requests.push(request);
+
+    const segments = path.split("/").filter(Boolean);
+    const route = resolveRoute(path);
+    const routeOptions = route ? routes.get(route.resource) : undefined;
+
+    await delay(pickLatency(routeOptions?.latency ?? defaultLatency), init.signal);
+
+    // Token refresh
+    if (method === "POST" && path === refreshPath) {
+      if (session === "revoked") return errorResponse(401, "Refresh token expired");
+      session = "valid";
+      return json({ message: "Token refreshed" });
+    }
+
+    // Chunked uploads
+    if (segments[0] === UPLOADS_PATH && segments.length <= 2) {
+      return handleUploads(method, segments[1], request.body, headers);
+    }
+
+    if (!route) return errorResponse(404, `No route for ${method} ${path}`);
+
+    const failure = injectedFailure(routeOptions, request);
+    if (failure?.status === 0) throw new TypeError("Failed to fetch");
+    if (failure) {
+      const message = failure.message ?? "Injected failure";
+      return errorResponse(failure.status, message, failure);
+    }
+
+    if (routeOptions?.requireAuth !== false) {
+      if (!request.authenticated) return errorResponse(401, "Authentication required");
+      if (session !== "valid") return errorResponse(401, "Token expired");
+    }
+
+    // Same Idempotency-Key → same response, no second write
+    const key = headers["idempotency-key"];
+    const previous = key ? idempotent.get(key) : undefined;
+    if (previous) return json(previous.body, previous.status);
+
+    const response = handleResource(
+      method,
+      route.resource,
+      route.id,
+      request.query,
+      request.body
+    );
+    if (key) {
+      const body = await response.clone().json();
+      idempotent.set(key, { status: response.status, body });
+    }
+    return response;
+  };
+
+  return {
+    baseUrl,
+    fetch: handle as typeof fetch,
+    requests,
+    /**
+     * Replaces global fetch and XMLHttpRequest (used for upload progress);
+     * other URLs still reach the network
+     * Returns a function that restores the originals
+     */
+    install: (): (() => void) => {
+      const original = globalThis.fetch;
+      const originalXhr = globalThis.XMLHttpRequest;
+      globalThis.fetch = ((input: RequestInfo | URL, init?: RequestInit) => {
+        const url = input instanceof Request ? input.url : String(input);
+        return url.startsWith(root) ? handle(input, init) : original(input, init);
+      }) as typeof fetch;
+      globalThis.XMLHttpRequest = createFakeXhr(
+        root,
+        handle,
+        originalXhr
+      ) as unknown as typeof XMLHttpRequest;
+      return () => {
+        globalThis.fetch = original;
+        globalThis.XMLHttpRequest = originalXhr;
+      };
+    },
+    /**
+     * Current items of a resource (copies - mutate through the API)
+     */
+    items: (resource: string): Item[] => structuredClone(store.get(resource) ?? []),
+    seed,
+    /**
+     * Changes a route's latency/failures/auth at runtime
+     */
+    configure: (resource: string, options: FakeRouteOptions) => {
+      routes.set(resource, { ...routes.get(resource), ...options });
+      if (!store.has(resource) || options.seed) seed(resource, options.seed);
+    },
+    // Next authed request gets 401; the refresh succeeds and the request replays
+    expireSession: () => {
+      session = "expired";
+    },
+    // Next authed request gets 401 and so does the refresh (→ AuthExpiredError)
+    revokeSession: () => {
+      session = "revoked";
+    },
+    // Back to the seed data and configured routes
+    reset,
+  };
+};
+
+export type FakeBackend = ReturnType<typeof createFakeBackend>;
@@ -0,0 +1,81 @@
+/**
+ * Ready-made interceptors for createApiClient
+ *
+ * Usage:
+ *   const client = createApiClient({
+ *     baseUrl: API_URL,
+ *     refreshUrl: REFRESH_URL,
+ *     interceptors: {
+ *       request: [tenantHeader(() => currentOrgId), tracingHeader()],
+ *       error: [logErrors()],
+ *     },
+ *   });
+ */
+
+import type {
+  ErrorInterceptor,
+  RequestInterceptor,
+  ResponseInterceptor,
+} from "./types";
+
+/**
+ * Adds a bearer token when one is available
+ * Use for token-in-storage auth instead of (or alongside) cookies
+ */
+export const authHeader =
+  (getToken: () => string | null | undefined): RequestInterceptor =>
+  (request) => {
+    const token = request.auth ? getToken() : null;
+    if (!token) return request;
+
+    return {
+      ...request,
+      headers: { ...request.headers, Authorization: `Bearer ${token}` },
+    };
+  };
+
+/**
+ * Scopes every request to the active tenant/organization
+ */
+export const tenantHeader =
+  (
+    getTenantId: () => string | null | undefined,
+    header = "X-Tenant-Id"
+  ): RequestInterceptor =>
+  (request) => {
+    const tenantId = getTenantId();
+    if (!tenantId) return request;
+
+    return { ...request, headers: { ...request.headers, [header]: tenantId } };
+  };
+
+/**
+ * Tags each request with a unique ID so frontend and backend logs line up
+ */
+export const tracingHeader =
+  (header = "X-Request-Id"): RequestInterceptor =>
+  (request) => ({
+    ...request,
+    headers: { ...request.headers, [header]: crypto.randomUUID() },
+  });
+
+/**
+ * Logs request/response pairs in development
+ */
+export const logResponses =
+  (enabled = process.env.NODE_ENV === "development"): ResponseInterceptor =>
+  (response, request) => {
+    if (enabled) {
+      console.debug(`[api] ${request.method} ${request.url} → ${response.status}`);
+    }
+    return response;
+  };
+
+/**
+ * Reports failed requests (swap console for Sentry etc.)
+ */
+export const logErrors =
+  (report: (message: string, error: unknown) => void = console.error): ErrorInterceptor =>
+  (error, request) => {
+    report(`[api] ${request.method} ${request.url} failed: ${error.message}`, error);
+  };
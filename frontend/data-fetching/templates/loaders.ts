@@ -0,0 +1,170 @@
+/**
+ * React Router loaders backed by the query cache
+ *
+ * Loaders run as soon as navigation starts - in parallel with the lazy page
+ * chunk - instead of after the page has rendered. The data lands in the
+ * same cache entry the page's useResource / usePaginatedResource reads, so
+ * the hook renders it immediately. Cached data is returned without a request.
+ *
+ * A failed request is thrown (as its ApiError), so the route's errorElement
+ * renders it - read it with useRouteError(). Failures aren't cached.
+ *
+ * Usage:
+ *   {
+ *     path: "reports/:reportId",
+ *     Component: PageReportDetail,
+ *     loader: resourceLoader<Report>({ resource: "reports", id: "reportId" }),
+ *     errorElement: <RouteError />,
+ *   }
+ *
+ *   // List page - page/limit/sort/where come from the URL search params
+ *   {
+ *     path: "reports",
+ *     Component: PageReports,
+ *     loader: resourceLoader<Report>({ resource: "reports" }),
+ *   }
+ *
+ *   // Nested resource - parent IDs from the route params
+ *   {
+ *     path: "organizations/:orgId/projects/:projectId",
+ *     Component: PageProject,
+ *     loader: resourceLoader<Project>({
+ *       resource: ({ params }) => ["organizations", params.orgId!, "projects"],
+ *       id: "projectId",
+ *     }),
+ *   }
+ *
+ *   // In the list page, read the same params so the cache key matches
+ *   const [searchParams] = useSearchParams();
+ *   usePaginatedResource<Report>({
+ *     resource: "reports",
+ *     ...paramsFromSearch<Report>(searchParams),
+ *   });
+ */
+
+import { parse } from "qs";
+import type { LoaderFunctionArgs, Params } from "react-router-dom";
+import { queryClient } from "./cache";
+import { ApiError } from "./errors";
+import {
+  collectionQuery,
+  itemQuery,
+  type PrefetchCollectionParams,
+  type PrefetchOptions,
+} from "./prefetch";
+import { resourceName } from "./resourcePath";
+import type {
+  ApiResponse,
+  CursorPaginatedResponse,
+  PaginatedResponse,
+  PaginationParams,
+  ResourcePath,
+} from "./types";
+
+export interface LoaderContext {
+  params: Params;
+  searchParams: URLSearchParams;
+}
+
+// A resource, or a function building a nested one from the route params
+type LoaderResource = ResourcePath | ((context: LoaderContext) => ResourcePath);
+
+interface ItemLoaderOptions<T> extends PrefetchOptions<T> {
+  resource: LoaderResource;
+  // Route param holding the ID ("reportId"), or a function returning it
+  id: string | ((context: LoaderContext) => string | undefined);
+}
+
+interface CollectionLoaderOptions<T> extends PrefetchOptions<T> {
+  resource: LoaderResource;
+  id?: undefined;
+  // Defaults to paramsFromSearch(searchParams)
+  params?: (context: LoaderContext) => PrefetchCollectionParams<T>;
+}
+
+type Loader<R> = (args: LoaderFunctionArgs) => Promise<R>;
+
+const toNumber = (value: unknown): number | undefined => {
+  const number = Number(value);
+  return value === undefined || Number.isNaN(number) ? undefined : number;
+};
+
+/**
+ * Reads list params from URL search params (dot notation, as useUrlParams
+ * writes them): ?page=2&limit=20&sort=-createdAt&where.status.equals=active
+ * Use it in the page too, so loader and hook build the same cache key.
+ */
+export const paramsFromSearch = <T = Record<string, unknown>>(
+  searchParams: URLSearchParams
+): PaginationParams<T> => {
+  const { page, limit, sort, where } = parse(searchParams.toString(), {
+    allowDots: true,
+  });
+
+  return {
+    page: toNumber(page),
+    limit: toNumber(limit),
+    sort: sort as PaginationParams<T>["sort"],
+    where: where as PaginationParams<T>["where"],
+  };
+};
+
+/**
+ * ensureQueryData that throws failed ApiResponses instead of caching them
+ */
+const ensure = async <R>(query: {
+  queryKey: readonly unknown[];
+  queryFn: () => Promise<R | ApiResponse<never>>;
+}): Promise<R> => {
+  const result = await queryClient.ensureQueryData(query);
+  const failure = result as ApiResponse<never>;
+
+  if (failure.success === false) {
+    // Keep the next navigation from reading the failure back
+    queryClient.removeQueries({ queryKey: query.queryKey, exact: true });
+    throw failure.error ?? new ApiError(failure.message ?? "Request failed");
+  }
+
+  return result as R;
+};
+
+/**
+ * Creates a route loader for one item (`id`) or a list page (no `id`)
+ * Resolves with the item / page, also available through useLoaderData()
+ */
+export function resourceLoader<T>(options: ItemLoaderOptions<T>): Loader<T>;
+export function resourceLoader<T>(
+  options: CollectionLoaderOptions<T>
+): Loader<PaginatedResponse<T> | CursorPaginatedResponse<T>>;
+export function resourceLoader<T>(
+  options: ItemLoaderOptions<T> | CollectionLoaderOptions<T>
+): Loader<unknown> {
+  const { resource, id, ...queryOptions } = options;
+
+  return async ({ params, request }) => {
+    const context = { params, searchParams: new URL(request.url).searchParams };
+    const path = typeof resource === "function" ? resource(context) : resource;
+
+    if (id === undefined) {
+      const listParams = (options as CollectionLoaderOptions<T>).params;
+      return ensure(
+        collectionQuery<T>(
+          path,
+          listParams ? listParams(context) : paramsFromSearch<T>(context.searchParams),
+          queryOptions
+        )
+      );
+    }
+
+    const itemId = typeof id === "function" ? id(context) : params[id];
+    if (!itemId) {
+      throw new ApiError(`No ${resourceName(path)} ID in the URL`, {
+        status: 404,
+        code: "NOT_FOUND",
+      });
+    }
+
+    const result = await ensure(itemQuery<T>(path, itemId, queryOptions));
+    return result.data as T;
+  };
+}
@@ -0,0 +1,340 @@
+/**
+ * Offline mutation queue
+ *
+ * Creates, updates and deletes that fail because there is no connection are
+ * saved (IndexedDB, or memory when unavailable) and replayed in order when
+ * the browser comes back online. Each queued mutation carries its own status
+ * so the UI can show "saved offline", "syncing" or "needs attention".
+ *
+ * Usage:
+ *   // Per hook - queue instead of failing while offline
+ *   const { updateItem, isQueued } = useResource<TaskInput, Task>({
+ *     resource: "tasks",
+ *     id,
+ *     offline: true,
+ *   });
+ *
+ *   // App setup - decide what happens when the server has moved on
+ *   configureOfflineQueue({
+ *     onConflict: async (mutation) =>
+ *       (await confirmOverwrite(mutation)) ? { data: mutation.data! } : "discard",
+ *   });
+ */
+
+import { getCrud, type Crud } from "./crud";
+import { invalidateResource } from "./cache";
+import { NetworkError, type ApiError } from "./errors";
+import { isSameResource } from "./resourcePath";
+import type {
+  ApiClient,
+  ApiResponse,
+  ConflictResolution,
+  MutationStore,
+  QueuedMutation,
+  ResourcePath,
+} from "./types";
+
+const DB_NAME = "offline-mutations";
+const STORE_NAME = "mutations";
+
+// A conflict resolved with new data is retried at most this many times
+const MAX_ATTEMPTS = 3;
+
+export type NewMutation = Pick<
+  QueuedMutation,
+  "resource" | "action" | "itemId" | "data"
+> & { endpoint?: ResourcePath };
+
+interface OfflineQueueOptions {
+  // Defaults to the app-wide apiClient
+  client?: ApiClient;
+  // Defaults to IndexedDB, falling back to memory
+  store?: MutationStore;
+  // Called for 409/412 responses; without it conflicts are kept for the UI
+  onConflict?: (
+    mutation: QueuedMutation,
+    error: ApiError
+  ) => ConflictResolution | Promise<ConflictResolution>;
+}
+
+// ============ STORES ============
+
+/**
+ * Non-durable store - for tests and browsers without IndexedDB
+ */
+export const createMemoryStore = (): MutationStore => {
+  const saved = new Map<string, QueuedMutation>();
+
+  return {
+    load: async () => [...saved.values()],
+    put: async (mutation) => {
+      saved.set(mutation.id, mutation);
+    },
+    remove: async (id) => {
+      saved.delete(id);
+    },
+  };
+};
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+/**
+ * IndexedDB store - survives reloads and closed tabs
+ */
+export const createIndexedDbStore = (dbName = DB_NAME): MutationStore => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    dbPromise ??= new Promise((resolve, reject) => {
+      const req = indexedDB.open(dbName, 1);
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    return dbPromise;
+  };
+
+  const objectStore = async (mode: IDBTransactionMode) =>
+    (await open()).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+
+  return {
+    load: async () =>
+      request((await objectStore("readonly")).getAll() as IDBRequest<QueuedMutation[]>),
+    put: async (mutation) => {
+      await request((await objectStore("readwrite")).put(mutation));
+    },
+    remove: async (id) => {
+      await request((await objectStore("readwrite")).delete(id));
+    },
+  };
+};
+
+const defaultStore = (): MutationStore =>
+  typeof indexedDB === "undefined" ? createMemoryStore() : createIndexedDbStore();
+
+// ============ QUEUE ============
+
+export const isOnline = (): boolean =>
+  typeof navigator === "undefined" ? true : navigator.onLine;
+
+const isConflict = (error?: ApiError): error is ApiError =>
+  error?.status === 409 || error?.status === 412;
+
+// Offline, signed out (AuthExpiredError) or server trouble - the mutation
+// itself wasn't rejected, so it's worth sending again later
+const isTransient = (error?: ApiError): boolean =>
+  error instanceof NetworkError ||
+  error?.status === 401 ||
+  error?.status === 429 ||
+  (error?.status ?? 0) >= 500;
+
+const send = (crud: Crud, mutation: QueuedMutation): Promise<ApiResponse<unknown>> => {
+  const { action, endpoint, itemId, data = {} } = mutation;
+
+  if (action === "create") return crud.createItem(endpoint, data);
+  if (action === "update") return crud.updateItem(endpoint, itemId!, data);
+  return crud.deleteItem(endpoint, itemId!);
+};
+
+/**
+ * Creates a queue bound to an API client and store
+ * Replays automatically on the window "online" event
+ */
+export const createOfflineQueue = ({
+  client,
+  store = defaultStore(),
+  onConflict,
+}: OfflineQueueOptions = {}) => {
+  const crud = getCrud(client);
+  const listeners = new Set<() => void>();
+  let mutations: QueuedMutation[] = [];
+  let lastOrder = 0;
+  let replaying: Promise<void> | null = null;
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  // Replaced (never mutated) so useSyncExternalStore sees each change
+  const commit = (next: QueuedMutation[]) => {
+    mutations = next.sort((a, b) => a.order - b.order);
+    notify();
+  };
+
+  const save = async (mutation: QueuedMutation) => {
+    commit([...mutations.filter((m) => m.id !== mutation.id), mutation]);
+    await store.put(mutation);
+  };
+
+  const drop = async (id: string) => {
+    commit(mutations.filter((m) => m.id !== id));
+    await store.remove(id);
+  };
+
+  // Anything mid-replay when the page closed is simply queued again
+  // (a store that can't be read starts empty rather than blocking the queue)
+  const ready = store
+    .load()
+    .catch((): QueuedMutation[] => [])
+    .then((saved) => {
+      lastOrder = Math.max(0, ...saved.map((m) => m.order));
+      commit(
+        saved.map((m) =>
+          m.status === "replaying" ? { ...m, status: "queued" as const } : m
+        )
+      );
+    });
+
+  /**
+   * Saves a mutation for later - returns it with its queue ID and status
+   */
+  const enqueue = async ({
+    endpoint,
+    ...input
+  }: NewMutation): Promise<QueuedMutation> => {
+    await ready;
+    lastOrder = Math.max(Date.now(), lastOrder + 1);
+
+    const mutation: QueuedMutation = {
+      ...input,
+      id: crypto.randomUUID(),
+      endpoint: endpoint ?? input.resource,
+      status: "queued",
+      attempts: 0,
+      order: lastOrder,
+      createdAt: new Date().toISOString(),
+    };
+
+    await save(mutation);
+    return mutation;
+  };
+
+  /**
+   * Resolves a conflict through `onConflict` (or leaves it for the UI)
+   */
+  const resolveConflict = async (mutation: QueuedMutation, error: ApiError) => {
+    const resolution = onConflict ? await onConflict(mutation, error) : "keep";
+
+    if (resolution === "discard") {
+      await drop(mutation.id);
+      invalidateResource(mutation.resource);
+    } else if (resolution === "keep" || mutation.attempts >= MAX_ATTEMPTS) {
+      await save({ ...mutation, status: "conflict", error: error.message });
+    } else {
+      await save({ ...mutation, data: resolution.data, status: "queued" });
+    }
+  };
+
+  const processQueue = async () => {
+    await ready;
+
+    for (;;) {
+      const mutation = mutations.find((m) => m.status === "queued");
+      if (!mutation || !isOnline()) return;
+
+      const attempt: QueuedMutation = {
+        ...mutation,
+        status: "replaying",
+        attempts: mutation.attempts + 1,
+      };
+      await save(attempt);
+
+      const result = await send(crud, attempt);
+
+      if (result.success) {
+        await drop(attempt.id);
+        invalidateResource(attempt.resource);
+      } else if (isTransient(result.error)) {
+        // Stop here so order is kept - try again on the next "online" event
+        // or replay() (e.g. after logging back in)
+        await save({ ...attempt, status: "queued" });
+        return;
+      } else if (isConflict(result.error)) {
+        await resolveConflict(attempt, result.error);
+      } else {
+        await save({ ...attempt, status: "failed", error: result.message });
+      }
+    }
+  };
+
+  /**
+   * Sends queued mutations in order; concurrent calls share one run
+   */
+  const replay = (): Promise<void> => {
+    replaying ??= processQueue().finally(() => {
+      replaying = null;
+    });
+    return replaying;
+  };
+
+  if (typeof window !== "undefined") {
+    window.addEventListener("online", () => void replay());
+    void ready.then(replay);
+  }
+
+  return {
+    enqueue,
+    replay,
+    /**
+     * Mutations not yet synced, optionally for one resource/item
+     */
+    pending: (resource?: ResourcePath, itemId?: string | null): QueuedMutation[] =>
+      mutations.filter(
+        (m) =>
+          (!resource || isSameResource(m.resource, resource)) &&
+          (!itemId || m.itemId === itemId)
+      ),
+    /**
+     * Puts a failed/conflicted mutation back in the queue and replays
+     */
+    retry: async (id: string) => {
+      const mutation = mutations.find((m) => m.id === id);
+      if (!mutation) return;
+      await save({ ...mutation, status: "queued", attempts: 0, error: undefined });
+      await replay();
+    },
+    /**
+     * Drops a mutation without sending it
+     */
+    discard: async (id: string) => {
+      const mutation = mutations.find((m) => m.id === id);
+      await drop(id);
+      if (mutation) invalidateResource(mutation.resource);
+    },
+    // For useSyncExternalStore
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    getSnapshot: (): QueuedMutation[] => mutations,
+  };
+};
+
+export type OfflineQueue = ReturnType<typeof createOfflineQueue>;
+
+// ============ DEFAULT QUEUE ============
+
+// Created on first use so apps without offline mode never open IndexedDB
+let defaultQueue: OfflineQueue | null = null;
+
+/**
+ * The queue `useResource({ offline: true })` uses
+ */
+export const getOfflineQueue = (): OfflineQueue => {
+  defaultQueue ??= createOfflineQueue();
+  return defaultQueue;
+};
+
+/**
+ * Replaces the default queue (call once at startup, before any hook uses it)
+ */
+export const configureOfflineQueue = (options: OfflineQueueOptions): OfflineQueue => {
+  defaultQueue = createOfflineQueue(options);
+  return defaultQueue;
+};
@@ -0,0 +1,181 @@
+/**
+ * Opt-in persistence of the query cache across reloads
+ *
+ * REQUIRES: @tanstack/react-query-persist-client plus
+ *   @tanstack/query-sync-storage-persister  (localStorage)
+ *   @tanstack/query-async-storage-persister (IndexedDB)
+ *
+ * Restored data renders immediately, then refetches in the background
+ * (the client's staleTime is Infinity, so it would otherwise never refresh).
+ *
+ * Usage:
+ *   // main.tsx - before rendering
+ *   persistCache({
+ *     storage: "indexedDB",
+ *     exclude: ["payments", "sessions"], // never written to disk
+ *     maxAge: 1000 * 60 * 60 * 24,
+ *   });
+ *
+ *   // On logout / resetUser
+ *   await clearPersistedCache();
+ */
+
+import type { Query, QueryKey } from "@tanstack/react-query";
+import { persistQueryClient } from "@tanstack/react-query-persist-client";
+import { createSyncStoragePersister } from "@tanstack/query-sync-storage-persister";
+import { createAsyncStoragePersister } from "@tanstack/query-async-storage-persister";
+import { queryClient } from "./cache";
+import { resourceName } from "./resourcePath";
+
+// Changes with each deploy so a new build never reads an old cache shape
+const BUILD_ID = process.env.NEXT_PUBLIC_BUILD_ID || "";
+
+const STORAGE_KEY = "query-cache";
+const DB_NAME = "query-cache";
+const DB_STORE = "entries";
+const DEFAULT_MAX_AGE = 1000 * 60 * 60 * 24; // 24 hours
+// Segments queryKeys puts after the resource path (see cache.ts)
+const KEY_KINDS = ["detail", "list", "infinite"];
+
+interface PersistCacheOptions {
+  // Defaults to "localStorage" (synchronous, ~5MB); use IndexedDB for large caches
+  storage?: "localStorage" | "indexedDB";
+  // Discards the persisted cache when it differs (defaults to the build ID)
+  buster?: string;
+  // Discards the persisted cache when older than this (ms)
+  maxAge?: number;
+  // Only persist these resources (default: all). Matched by collection
+  // name, so "tasks" also covers ["organizations", orgId, "tasks"]
+  include?: string[];
+  // Never persist these resources - wins over `include`
+  exclude?: string[];
+}
+
+// ============ INDEXEDDB STORAGE ============
+
+const idbRequest = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+/**
+ * Minimal async key/value storage over IndexedDB (getItem/setItem/removeItem)
+ */
+const createIndexedDbStorage = () => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const objectStore = async (mode: IDBTransactionMode) => {
+    dbPromise ??= new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, 1);
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(DB_STORE);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    return (await dbPromise).transaction(DB_STORE, mode).objectStore(DB_STORE);
+  };
+
+  return {
+    getItem: async (key: string) =>
+      ((await idbRequest((await objectStore("readonly")).get(key))) as string) ?? null,
+    setItem: async (key: string, value: string) => {
+      await idbRequest((await objectStore("readwrite")).put(value, key));
+    },
+    removeItem: async (key: string) => {
+      await idbRequest((await objectStore("readwrite")).delete(key));
+    },
+  };
+};
+
+// ============ PERSISTENCE ============
+
+let activeStorage: PersistCacheOptions["storage"] | null = null;
+let unsubscribe: (() => void) | null = null;
+
+/**
+ * Collection name of a query - the last path segment before the key kind:
+ *   ["tasks", "list", params]                      → "tasks"
+ *   ["organizations", "o1", "tasks", "detail", id] → "tasks"
+ * Custom keys without a kind use their first segment
+ */
+const queryResource = (queryKey: QueryKey): string | null => {
+  const kind = queryKey.findIndex(
+    (segment) => typeof segment === "string" && KEY_KINDS.includes(segment)
+  );
+  const path = kind === -1 ? queryKey.slice(0, 1) : queryKey.slice(0, kind);
+  if (path.length === 0) return null;
+  if (!path.every((segment) => typeof segment === "string")) return null;
+  return resourceName(path as string[]);
+};
+
+/**
+ * Only successful responses of allowed resources are written
+ */
+const shouldPersist =
+  ({ include, exclude = [] }: PersistCacheOptions) =>
+  (query: Query): boolean => {
+    const resource = queryResource(query.queryKey);
+    if (!resource) return false;
+    if (exclude.includes(resource)) return false;
+    if (include && !include.includes(resource)) return false;
+
+    const data = query.state.data as { success?: boolean } | undefined;
+    return query.state.status === "success" && data?.success !== false;
+  };
+
+/**
+ * Restores the persisted cache, then keeps it in sync with every change
+ * Returns a function that stops persisting (already-written data stays)
+ */
+export const persistCache = (options: PersistCacheOptions = {}): (() => void) => {
+  if (typeof window === "undefined") return () => {};
+
+  const {
+    storage = "localStorage",
+    buster = BUILD_ID,
+    maxAge = DEFAULT_MAX_AGE,
+  } = options;
+
+  const persister =
+    storage === "indexedDB" && typeof indexedDB !== "undefined"
+      ? createAsyncStoragePersister({
+          storage: createIndexedDbStorage(),
+          key: STORAGE_KEY,
+        })
+      : createSyncStoragePersister({ storage: window.localStorage, key: STORAGE_KEY });
+
+  unsubscribe?.();
+  activeStorage = storage;
+
+  const [stop, restored] = persistQueryClient({
+    queryClient,
+    persister,
+    buster,
+    maxAge,
+    dehydrateOptions: { shouldDehydrateQuery: shouldPersist(options) },
+  });
+
+  // Show restored data now, refresh it in the background
+  void restored.then(() => queryClient.invalidateQueries());
+
+  unsubscribe = stop;
+  return stop;
+};
+
+/**
+ * Empties the in-memory cache and the persisted copy
+ * Call on logout (and with analytics resetUser) so one user's data never
+ * shows up for the next
+ */
+export const clearPersistedCache = async (): Promise<void> => {
+  queryClient.clear();
+
+  if (typeof window === "undefined") return;
+
+  window.localStorage.removeItem(STORAGE_KEY);
+  if (activeStorage === "indexedDB" && typeof indexedDB !== "undefined") {
+    await createIndexedDbStorage().removeItem(STORAGE_KEY);
+  }
+};
@@ -0,0 +1,132 @@
+/**
+ * Prefetching - load data into the cache before the component that needs it
+ *
+ * Keys and fetchers match useResource / usePaginatedResource exactly, so the
+ * hook finds the data already cached and renders without a skeleton.
+ * Already-cached data isn't fetched again (staleTime is Infinity), so it's
+ * safe to call on every hover.
+ *
+ * Usage:
+ *   // Card hover → detail page opens instantly
+ *   <div onMouseEnter={() => prefetchResource("users", user.id)}>
+ *
+ *   // Warm the next page of a list
+ *   prefetchCollection<User>("users", { page: page + 1, limit: 10 });
+ */
+
+import type { QueryKey } from "@tanstack/react-query";
+import { getCrud } from "./crud";
+import { queryClient, queryKeys } from "./cache";
+import type {
+  ApiClient,
+  ApiResponse,
+  CursorPaginatedResponse,
+  CursorPaginationParams,
+  PaginatedResponse,
+  PaginationMode,
+  PaginationParams,
+  ResourcePath,
+  ResponseValidation,
+} from "./types";
+
+export interface PrefetchOptions<T> extends ResponseValidation<T> {
+  // Defaults to the app-wide apiClient
+  client?: ApiClient;
+  // Request path when it differs from `resource` (still the cache key)
+  endpoint?: ResourcePath;
+}
+
+export interface PrefetchCollectionParams<T>
+  extends PaginationParams<T>,
+    Pick<CursorPaginationParams<T>, "after" | "before"> {
+  // Defaults to "offset" (page/limit)
+  mode?: PaginationMode;
+  publicEndpoint?: boolean;
+}
+
+export type CollectionResult<T> =
+  | PaginatedResponse<T>
+  | CursorPaginatedResponse<T>
+  | ApiResponse<never>;
+
+// ============ QUERY DEFINITIONS ============
+// Also used by loaders.ts, so loaders, prefetches and hooks share one entry
+
+/**
+ * Key + fetcher of a useResource query
+ */
+export const itemQuery = <T>(
+  resource: ResourcePath,
+  id: string,
+  { client, endpoint = resource, schema, validation }: PrefetchOptions<T> = {}
+) => ({
+  queryKey: queryKeys.detail(resource, id),
+  queryFn: () => getCrud(client).getItem<T>(endpoint, id, { schema, validation }),
+});
+
+/**
+ * Key + fetcher of a usePaginatedResource query
+ * Defaults match the hook's: page 1, limit 10, offset mode
+ */
+export const collectionQuery = <T>(
+  resource: ResourcePath,
+  {
+    page = 1,
+    limit = 10,
+    sort,
+    where,
+    after,
+    before,
+    mode = "offset",
+    publicEndpoint = false,
+  }: PrefetchCollectionParams<T> = {},
+  { client, endpoint = resource, schema, validation }: PrefetchOptions<T> = {}
+): {
+  queryKey: QueryKey;
+  queryFn: () => Promise<CollectionResult<T>>;
+} => {
+  const crud = getCrud(client);
+  const options = { schema, validation };
+
+  // Offset and cursor params never mix, as in the hook
+  if (mode === "cursor") {
+    const params = { limit, sort, where, after, before };
+    const fetchFn = publicEndpoint
+      ? crud.getPublicCursorCollection
+      : crud.getCursorCollection;
+
+    return {
+      queryKey: queryKeys.list(resource, params),
+      queryFn: () => fetchFn<T>(endpoint, params, options),
+    };
+  }
+
+  const params = { page, limit, sort, where };
+  const fetchFn = publicEndpoint ? crud.getPublicCollection : crud.getCollection;
+
+  return {
+    queryKey: queryKeys.list(resource, params),
+    queryFn: () => fetchFn<T>(endpoint, params, options),
+  };
+};
+
+// ============ PREFETCH ============
+
+/**
+ * Fetches one item into the cache (the same entry useResource reads)
+ */
+export const prefetchResource = <T>(
+  resource: ResourcePath,
+  id: string,
+  options?: PrefetchOptions<T>
+): Promise<void> => queryClient.prefetchQuery(itemQuery<T>(resource, id, options));
+
+/**
+ * Fetches one list page into the cache (the same entry usePaginatedResource reads)
+ */
+export const prefetchCollection = <T>(
+  resource: ResourcePath,
+  params?: PrefetchCollectionParams<T>,
+  options?: PrefetchOptions<T>
+): Promise<void> =>
+  queryClient.prefetchQuery(collectionQuery<T>(resource, params, options));
@@ -0,0 +1,321 @@
+/**
+ * Realtime cache updates over server-sent events (or WebSocket)
+ *
+ * CONFIGURE: Set REALTIME_URL to your backend's event stream
+ *
+ * The server pushes `{ resource, id, action, data? }` events and the cache
+ * follows along, so other people's edits show up without a manual refresh
+ * (the client's staleTime is Infinity, so nothing refetches on its own).
+ * `resource` may be nested, as segments or an "a/b/c" path (resourcePath.ts).
+ * The connection opens with the first subscriber, closes with the last, and
+ * reconnects with exponential backoff. Everything subscribed is refetched
+ * after a reconnect because events sent while disconnected are lost.
+ *
+ * Usage:
+ *   // In a component - keeps "tasks" live while mounted
+ *   const { status } = useLiveResource({ resource: "tasks" });
+ *
+ *   // App setup - WebSocket instead of SSE
+ *   configureRealtime({ transport: webSocketTransport("wss://api.example.com/ws") });
+ */
+
+import {
+  invalidateLists,
+  invalidateResource,
+  queryClient,
+  queryKeys,
+  setCachedItem,
+  type ItemIdGetter,
+} from "./cache";
+import { resourceUrl } from "./resourcePath";
+import type {
+  RealtimeEvent,
+  RealtimeHandlers,
+  RealtimeStatus,
+  RealtimeTransport,
+  ResourceItem,
+  ResourcePath,
+} from "./types";
+
+// TODO: Configure for your project
+const REALTIME_URL =
+  process.env.NEXT_PUBLIC_REALTIME_URL ||
+  `${process.env.NEXT_PUBLIC_API_URL || "http://localhost:3000/api"}/events`;
+
+const ACTIONS: ReadonlyArray<RealtimeEvent["action"]> = ["create", "update", "delete"];
+
+type RealtimeListener = (event: RealtimeEvent) => void;
+
+interface Subscription {
+  resource: ResourcePath;
+  listeners: Set<RealtimeListener>;
+  // Matches event IDs to cached items when they aren't keyed by `id`
+  getId?: ItemIdGetter<ResourceItem>;
+}
+
+interface RealtimeClientOptions {
+  // Defaults to SSE on REALTIME_URL
+  transport?: RealtimeTransport;
+  // First reconnect delay (ms), doubled per failed attempt
+  initialDelay?: number;
+  // Upper bound for the reconnect delay (ms)
+  maxDelay?: number;
+}
+
+// ============ TRANSPORTS ============
+
+const isResourcePath = (value: unknown): value is ResourcePath =>
+  typeof value === "string" ||
+  (Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((segment) => ["string", "number"].includes(typeof segment)));
+
+/**
+ * Parses one message body; malformed events are logged and skipped
+ */
+const parseEvent = (raw: string): RealtimeEvent | null => {
+  try {
+    const event = JSON.parse(raw) as RealtimeEvent;
+    if (isResourcePath(event?.resource) && ACTIONS.includes(event.action)) {
+      return event;
+    }
+  } catch {
+    // Fall through to the warning
+  }
+
+  console.warn("[realtime] Ignoring malformed event", raw);
+  return null;
+};
+
+const deliver = ({ onEvent }: RealtimeHandlers) => (raw: string) => {
+  const event = parseEvent(raw);
+  if (event) onEvent(event);
+};
+
+/**
+ * Server-sent events - one JSON event per `data:` message
+ * EventSource's own retry is replaced by the client's backoff
+ */
+export const sseTransport =
+  (url: string = REALTIME_URL, init: EventSourceInit = { withCredentials: true }) =>
+  (handlers: RealtimeHandlers): (() => void) => {
+    const source = new EventSource(url, init);
+    const onMessage = deliver(handlers);
+
+    source.onopen = () => handlers.onOpen();
+    source.onmessage = (message) => onMessage(message.data);
+    source.onerror = (error) => {
+      source.close();
+      handlers.onClose(error);
+    };
+
+    return () => source.close();
+  };
+
+/**
+ * WebSocket - same event shape, one JSON event per message
+ */
+export const webSocketTransport =
+  (url: string, protocols?: string | string[]) =>
+  (handlers: RealtimeHandlers): (() => void) => {
+    const socket = new WebSocket(url, protocols);
+    const onMessage = deliver(handlers);
+    let closedByClient = false;
+
+    socket.onopen = () => handlers.onOpen();
+    socket.onmessage = (message) => onMessage(String(message.data));
+    socket.onclose = (event) => {
+      if (!closedByClient) handlers.onClose(event);
+    };
+
+    return () => {
+      closedByClient = true;
+      socket.close();
+    };
+  };
+
+// ============ CACHE ============
+
+/**
+ * Applies one event to the query cache
+ * `getId` reads item IDs for resources with a custom idField
+ */
+export const applyRealtimeEvent = (
+  { resource, id, action, data }: RealtimeEvent,
+  getId?: ItemIdGetter<ResourceItem>
+): void => {
+  if (!id) {
+    invalidateResource(resource);
+    return;
+  }
+
+  if (action === "create") {
+    invalidateLists(resource);
+  } else if (action === "delete") {
+    setCachedItem(resource, id, () => null, getId);
+    invalidateLists(resource);
+  } else if (data) {
+    // Patch in place - no refetch for the detail or list pages that hold it
+    setCachedItem<ResourceItem>(
+      resource,
+      id,
+      (item) => ({ ...item, ...data }),
+      getId
+    );
+    queryClient.invalidateQueries({ queryKey: queryKeys.infinites(resource) });
+  } else {
+    queryClient.invalidateQueries({ queryKey: queryKeys.detail(resource, id) });
+    invalidateLists(resource);
+  }
+};
+
+// ============ CLIENT ============
+
+/**
+ * Creates a realtime client around a transport
+ * Connects lazily: nothing opens until something subscribes
+ */
+export const createRealtimeClient = ({
+  transport = sseTransport(),
+  initialDelay = 1000,
+  maxDelay = 30_000,
+}: RealtimeClientOptions = {}) => {
+  // Keyed by URL so "a/b" and ["a", "b"] share a subscription
+  const subscribers = new Map<string, Subscription>();
+  const statusListeners = new Set<() => void>();
+  let status: RealtimeStatus = "idle";
+  let close: (() => void) | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let attempt = 0;
+  let hasOpened = false;
+
+  const setStatus = (next: RealtimeStatus) => {
+    if (status === next) return;
+    status = next;
+    statusListeners.forEach((listener) => listener());
+  };
+
+  // Exponential backoff with jitter so clients don't reconnect in lockstep
+  const nextDelay = () => {
+    const delay = Math.min(maxDelay, initialDelay * 2 ** attempt);
+    attempt += 1;
+    return delay / 2 + Math.random() * (delay / 2);
+  };
+
+  const handlers: RealtimeHandlers = {
+    onOpen: () => {
+      attempt = 0;
+      // Events sent while disconnected are gone - refetch what's on screen
+      if (hasOpened) {
+        subscribers.forEach(({ resource }) => invalidateResource(resource));
+      }
+      hasOpened = true;
+      setStatus("open");
+    },
+    onEvent: (event) => {
+      const subscription = subscribers.get(resourceUrl(event.resource));
+      applyRealtimeEvent(event, subscription?.getId);
+      subscription?.listeners.forEach((listener) => listener(event));
+    },
+    onClose: () => {
+      close = null;
+      if (subscribers.size === 0) return;
+      setStatus("reconnecting");
+      retryTimer = setTimeout(open, nextDelay());
+    },
+  };
+
+  const open = () => {
+    retryTimer = null;
+    if (status !== "reconnecting") setStatus("connecting");
+    close = transport(handlers);
+  };
+
+  // Skip the remaining backoff as soon as the network is back
+  const onOnline = () => {
+    if (!retryTimer) return;
+    clearTimeout(retryTimer);
+    open();
+  };
+
+  // Listens only while something is subscribed, so a shut-down client
+  // never reopens itself
+  const start = () => {
+    if (typeof window !== "undefined") {
+      window.addEventListener("online", onOnline);
+    }
+    open();
+  };
+
+  const shutdown = () => {
+    if (typeof window !== "undefined") {
+      window.removeEventListener("online", onOnline);
+    }
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    close?.();
+    close = null;
+    attempt = 0;
+    hasOpened = false;
+    setStatus("idle");
+  };
+
+  return {
+    /**
+     * Keeps a resource live; returns an unsubscribe function
+     * The listener receives the resource's events after the cache is updated
+     */
+    subscribe: (
+      resource: ResourcePath,
+      listener: RealtimeListener = () => {},
+      getId?: ItemIdGetter<ResourceItem>
+    ) => {
+      const path = resourceUrl(resource);
+      const subscription: Subscription = subscribers.get(path) ?? {
+        resource,
+        listeners: new Set<RealtimeListener>(),
+      };
+      subscription.listeners.add(listener);
+      if (getId) subscription.getId = getId;
+      subscribers.set(path, subscription);
+      if (status === "idle") start();
+
+      return () => {
+        subscription.listeners.delete(listener);
+        if (subscription.listeners.size === 0) subscribers.delete(path);
+        if (subscribers.size === 0) shutdown();
+      };
+    },
+    // For useSyncExternalStore
+    subscribeStatus: (listener: () => void) => {
+      statusListeners.add(listener);
+      return () => {
+        statusListeners.delete(listener);
+      };
+    },
+    getStatus: (): RealtimeStatus => status,
+  };
+};
+
+export type RealtimeClient = ReturnType<typeof createRealtimeClient>;
+
+// ============ DEFAULT CLIENT ============
+
+// Created on first use so apps without realtime never open a connection
+let defaultClient: RealtimeClient | null = null;
+
+/**
+ * The client `useLiveResource` uses
+ */
+export const getRealtimeClient = (): RealtimeClient => {
+  defaultClient ??= createRealtimeClient();
+  return defaultClient;
+};
+
+/**
+ * Replaces the default client (call once at startup, before any hook uses it)
+ */
+export const configureRealtime = (options: RealtimeClientOptions): RealtimeClient => {
+  defaultClient = createRealtimeClient(options);
+  return defaultClient;
+};
@@ -0,0 +1,46 @@
+/**
+ * Nested resource paths - `["organizations", orgId, "projects"]`
+ *
+ * One ResourcePath gives both the request URL and the cache key prefix:
+ *
+ *   "users"                               /users
+ *   ["organizations", "o1", "projects"]   /organizations/o1/projects
+ *   "organizations/o1/projects"           same key and URL as the array
+ *
+ * Keys nest the same way, so ["organizations", "o1", "projects"] and
+ * ["organizations", "o2", "projects"] are cached (and invalidated) apart,
+ * and everything under organization o1 shares the prefix
+ * ["organizations", "o1"] - see invalidateChildren() in cache.ts.
+ */
+
+import type { ResourcePath } from "./types";
+
+/**
+ * Cache key segments of a resource (IDs as strings)
+ * A "/" in a string path splits, so both spellings share one cache entry
+ */
+export const resourceKey = (resource: ResourcePath): string[] =>
+  typeof resource === "string" ? resource.split("/") : resource.map(String);
+
+/**
+ * Request path without leading slash; parent IDs are URL-encoded
+ */
+export const resourceUrl = (resource: ResourcePath): string =>
+  typeof resource === "string"
+    ? resource
+    : resource.map((segment) => encodeURIComponent(String(segment))).join("/");
+
+/**
+ * Collection name - the last segment ("projects")
+ * Per-resource config (adapters, batching) is looked up by this
+ */
+export const resourceName = (resource: ResourcePath): string => {
+  const segments = resourceKey(resource);
+  return segments[segments.length - 1].split("/").pop() ?? "";
+};
+
+/**
+ * Whether two paths point at the same resource (arrays compare by value)
+ */
+export const isSameResource = (a: ResourcePath, b: ResourcePath): boolean =>
+  resourceUrl(a) === resourceUrl(b);
@@ -0,0 +1,88 @@
+/**
+ * Retry policy for the API client - exponential backoff with jitter
+ *
+ * Only requests that are safe to repeat are retried: idempotent methods, and
+ * POST/PATCH when they carry an Idempotency-Key (the backend then returns the
+ * first result instead of creating a duplicate). Keys are on by default;
+ * `idempotencyHeader: false` on the client turns them, and those retries, off.
+ *
+ * Usage:
+ *   // Client-wide
+ *   createApiClient({ baseUrl, retry: { retries: 3, statuses: [502, 503] } });
+ *
+ *   // Per call
+ *   api("/reports/export", body, { method: "POST", retry: false });
+ */
+
+import type { ApiRequest, RetryOptions } from "./types";
+
+export type RetryPolicy = Required<RetryOptions>;
+
+const DEFAULT_POLICY: RetryPolicy = {
+  retries: 2,
+  baseDelay: 300,
+  maxDelay: 10_000,
+  statuses: [408, 429, 502, 503, 504],
+  methods: ["GET", "PUT", "DELETE"],
+};
+
+/**
+ * Merges defaults, client config and per-call options
+ * Returns null when either level disabled retries
+ */
+export const resolveRetryPolicy = (
+  clientOptions: RetryOptions | false | undefined,
+  callOptions: RetryOptions | false | undefined
+): RetryPolicy | null => {
+  if (clientOptions === false || callOptions === false) return null;
+  return { ...DEFAULT_POLICY, ...clientOptions, ...callOptions };
+};
+
+/**
+ * Whether repeating the request can't change the outcome: an idempotent
+ * method, or a POST/PATCH carrying its key (never with `idempotencyHeader: false`)
+ */
+export const canRetry = (
+  request: ApiRequest,
+  policy: RetryPolicy,
+  idempotencyHeader: string | false
+): boolean =>
+  policy.methods.includes(request.method) ||
+  Boolean(idempotencyHeader && request.headers[idempotencyHeader]);
+
+/**
+ * Delay before retry number `attempt` (0-based) in ms
+ * Retry-After (seconds) wins; returns null when it's longer than maxDelay
+ */
+export const retryDelay = (
+  attempt: number,
+  policy: RetryPolicy,
+  retryAfter?: number
+): number | null => {
+  if (retryAfter !== undefined) {
+    const delay = retryAfter * 1000;
+    return delay > policy.maxDelay ? null : delay;
+  }
+
+  // Full jitter so clients that failed together don't retry together
+  const ceiling = Math.min(policy.maxDelay, policy.baseDelay * 2 ** attempt);
+  return Math.random() * ceiling;
+};
+
+/**
+ * Waits `ms`, rejecting with an AbortError if the signal fires first
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason ?? new DOMException("Aborted", "AbortError"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", abort);
+      resolve();
+    }, ms);
+
+    if (signal?.aborted) abort();
+    else signal?.addEventListener("abort", abort, { once: true });
+  });
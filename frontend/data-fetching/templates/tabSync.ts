@@ -0,0 +1,101 @@
+/**
+ * Cross-tab messaging for cache invalidation and auth events
+ *
+ * Each tab has its own query cache and auth state. cache.ts, api.ts and
+ * AuthProvider broadcast what they change here, and sibling tabs apply it,
+ * so a delete or logout in one tab shows up in all of them.
+ *
+ * Uses BroadcastChannel, falling back to the `storage` event (which fires in
+ * every other tab of the same origin) where BroadcastChannel is missing.
+ * Messages never come back to the tab that sent them.
+ *
+ * Usage:
+ *   broadcast({ type: "auth", event: "logout" });
+ *
+ *   useEffect(
+ *     () => onTabMessage((message) => message.type === "auth" && syncAuth(message)),
+ *     []
+ *   );
+ */
+
+import type { TabMessage } from "./types";
+
+const CHANNEL_NAME = "app-sync";
+// localStorage key used by the fallback; written and removed immediately
+const STORAGE_KEY = "app-sync-message";
+
+type TabListener = (message: TabMessage) => void;
+
+interface TabChannel {
+  post: (message: TabMessage) => void;
+}
+
+const listeners = new Set<TabListener>();
+let channel: TabChannel | null = null;
+
+const receive = (message: TabMessage) => {
+  listeners.forEach((listener) => listener(message));
+};
+
+const createBroadcastChannel = (): TabChannel => {
+  const broadcastChannel = new BroadcastChannel(CHANNEL_NAME);
+  broadcastChannel.onmessage = (event: MessageEvent<TabMessage>) => receive(event.data);
+
+  return { post: (message) => broadcastChannel.postMessage(message) };
+};
+
+const createStorageChannel = (): TabChannel => {
+  window.addEventListener("storage", (event) => {
+    if (event.key !== STORAGE_KEY || !event.newValue) return;
+    try {
+      receive(JSON.parse(event.newValue).message as TabMessage);
+    } catch {
+      // Not ours or truncated - ignore
+    }
+  });
+
+  return {
+    post: (message) => {
+      // The nonce makes repeated identical messages still count as a change
+      const value = JSON.stringify({ message, nonce: crypto.randomUUID() });
+      try {
+        localStorage.setItem(STORAGE_KEY, value);
+        localStorage.removeItem(STORAGE_KEY);
+      } catch {
+        // Storage full or disabled - other tabs just won't hear about it
+      }
+    },
+  };
+};
+
+/**
+ * Opened on first use; null during SSR
+ */
+const getChannel = (): TabChannel | null => {
+  if (typeof window === "undefined") return null;
+
+  channel ??=
+    typeof BroadcastChannel === "undefined"
+      ? createStorageChannel()
+      : createBroadcastChannel();
+  return channel;
+};
+
+/**
+ * Sends a message to every other open tab
+ */
+export const broadcast = (message: TabMessage): void => {
+  getChannel()?.post(message);
+};
+
+/**
+ * Subscribes to messages from other tabs
+ * Returns an unsubscribe function
+ */
+export const onTabMessage = (listener: TabListener): (() => void) => {
+  getChannel();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
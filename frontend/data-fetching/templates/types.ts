@@ -2,11 +2,18 @@
  * Shared types for the data fetching layer
  */
 
+import type { ApiError, AuthExpiredError } from "./errors";
+import type { Where } from "./where";
+
 // API response wrapper - all API operations return this
 export interface ApiResponse<T> {
   success: boolean;
   data?: T;
   message?: string;
+  // Typed failure (ValidationError, NetworkError, ...) when success is false
+  error?: ApiError;
+  // Saved to the offline queue - will be sent when the connection returns
+  queued?: boolean;
 }
 
 // Paginated response from collection endpoints
@@ -22,27 +29,234 @@ export interface PaginatedResponse<T> {
   prevPage?: number;
 }
 
+// Cursor page info - no total count required
+export interface PageInfo {
+  startCursor: string | null;
+  endCursor: string | null;
+  hasNextPage: boolean;
+  hasPreviousPage?: boolean;
+}
+
+// Cursor-paginated response from collection endpoints
+export interface CursorPaginatedResponse<T> {
+  data: T[];
+  pageInfo: PageInfo;
+  totalDocs?: number;
+}
+
+// "offset" = page/limit, "cursor" = after/before - chosen per resource
+export type PaginationMode = "offset" | "cursor";
+
+// Issue reported by a response schema (zod's issue shape)
+export interface SchemaIssue {
+  path: PropertyKey[];
+  message: string;
+  code?: string;
+  expected?: string;
+}
+
+// Any zod-compatible schema - only safeParse() is used
+export interface ResponseSchema<T> {
+  safeParse: (
+    data: unknown
+  ) => { success: true; data: T } | { success: false; error: { issues: SchemaIssue[] } };
+}
+
+// "strict" fails the call, "log" warns and keeps the data, "off" skips parsing
+export type ValidationMode = "strict" | "log" | "off";
+
+// Opt-in response validation for crud calls and hooks
+export interface ResponseValidation<T> {
+  // Schema for one item (collections are validated item by item)
+  schema?: ResponseSchema<T>;
+  // Defaults to "strict" in development, "log" in production
+  validation?: ValidationMode;
+}
+
 // Options for the base API function
 export interface ApiOptions {
   method?: "GET" | "POST" | "PATCH" | "PUT" | "DELETE";
   auth?: boolean;
   headers?: Record<string, string>;
   signal?: AbortSignal;
+  // Overrides the client's retry policy for this call; false disables retries
+  retry?: RetryOptions | false;
+  // POST/PATCH only - reuse a key (e.g. when resubmitting the same form)
+  idempotencyKey?: string;
+}
+
+// Retries for transient failures: network errors and the `statuses` below
+// Delays grow exponentially with jitter; a Retry-After header wins when present
+export interface RetryOptions {
+  // Retries after the first attempt (default 2, 0 disables)
+  retries?: number;
+  // First delay in ms, doubled per retry (default 300)
+  baseDelay?: number;
+  // Longest wait in ms - a longer Retry-After fails instead (default 10000)
+  maxDelay?: number;
+  // Default 408, 429, 502, 503, 504
+  statuses?: number[];
+  // Default GET, PUT, DELETE - plus POST/PATCH when they carry an Idempotency-Key
+  methods?: NonNullable<ApiOptions["method"]>[];
+}
+
+// Upload progress reported by the XHR transport
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+  percent: number;
+}
+
+// Files keyed by form field name, e.g. { avatar: file, gallery: [a, b] }
+export type UploadFiles = Record<string, File | File[]>;
+
+// Opt-in resumable upload (see upload.ts for the server contract)
+export interface ChunkedUploadOptions {
+  // Upload session endpoint, relative to the client's baseUrl
+  endpoint?: string;
+  // Bytes per chunk (default 5 MB)
+  chunkSize?: number;
+  // Attempts per chunk on network failure (default 3)
+  retries?: number;
 }
 
 // Options for file uploads
 export interface FileApiOptions extends ApiOptions {
-  file: File;
+  // Single file, sent as the "file" field
+  file?: File;
+  files?: UploadFiles;
+  // Switches the transport to XHR so progress can be reported
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+// Options for raw requests (body passed through untouched)
+export interface RequestOptions extends ApiOptions {
+  body?: BodyInit;
+  onUploadProgress?: (progress: UploadProgress) => void;
+}
+
+// Request as seen by interceptors (url is already resolved against baseUrl)
+export interface ApiRequest {
+  url: string;
+  method: NonNullable<ApiOptions["method"]>;
+  headers: Record<string, string>;
+  body?: BodyInit;
+  auth: boolean;
+  signal?: AbortSignal;
+  onUploadProgress?: (progress: UploadProgress) => void;
+}
+
+// Interceptors run in registration order
+export type RequestInterceptor = (
+  request: ApiRequest
+) => ApiRequest | Promise<ApiRequest>;
+
+export type ResponseInterceptor = (
+  response: Response,
+  request: ApiRequest
+) => Response | Promise<Response>;
+
+// Return a different ApiError to replace it, or nothing to keep it
+export type ErrorInterceptor = (
+  error: ApiError,
+  request: ApiRequest
+) => ApiError | void | Promise<ApiError | void>;
+
+export interface ApiInterceptors {
+  request?: RequestInterceptor[];
+  response?: ResponseInterceptor[];
+  error?: ErrorInterceptor[];
+}
+
+// Normalises raw response bodies into the internal shapes (see adapters.ts)
+export interface ResponseAdapter {
+  item: <T>(body: unknown) => T;
+  collection: <T>(body: unknown, params?: PaginationParams<T>) => PaginatedResponse<T>;
+  cursorCollection: <T>(body: unknown) => CursorPaginatedResponse<T>;
+}
+
+// Config for createApiClient
+export interface ApiClientConfig {
+  baseUrl: string;
+  // Omit to disable automatic token refresh on 401
+  refreshUrl?: string;
+  credentials?: RequestCredentials;
+  interceptors?: ApiInterceptors;
+  // Defaults to defaultAdapter (auto-detects common shapes)
+  adapter?: ResponseAdapter;
+  // Per-resource overrides, merged over `adapter`
+  resourceAdapters?: Record<string, Partial<ResponseAdapter>>;
+  // Default retry policy (see RetryOptions); false disables retries
+  retry?: RetryOptions | false;
+  // Header sent with a unique key on every POST/PATCH (default
+  // "Idempotency-Key"); false when the backend doesn't deduplicate on it
+  idempotencyHeader?: string | false;
+  // Replaces global fetch for this client, e.g. createFakeBackend().fetch
+  // (upload progress is then not reported - XHR is bypassed)
+  fetch?: typeof fetch;
+}
+
+export type SessionExpiredListener = (error: AuthExpiredError) => void;
+
+// Client returned by createApiClient - crud.ts and the hooks run through this
+export interface ApiClient {
+  baseUrl: string;
+  api: <T = unknown>(
+    url: string,
+    body?: Record<string, unknown> | null,
+    options?: ApiOptions
+  ) => Promise<T>;
+  fileApi: <T = unknown>(
+    url: string,
+    data: Record<string, unknown>,
+    options: FileApiOptions
+  ) => Promise<T>;
+  // Low-level escape hatch: body is sent as-is (Blob, FormData, string)
+  request: <T = unknown>(url: string, options?: RequestOptions) => Promise<T>;
+  publicApi: <T = unknown>(
+    url: string,
+    body?: Record<string, unknown> | null,
+    options?: Omit<ApiOptions, "auth">
+  ) => Promise<T>;
+  onSessionExpired: (listener: SessionExpiredListener) => () => void;
+  // Response adapter for a resource (client adapter + resource overrides)
+  adapterFor: (resource: ResourcePath) => ResponseAdapter;
+  // Adds interceptors after creation; returns a function that removes them
+  use: (interceptors: {
+    request?: RequestInterceptor;
+    response?: ResponseInterceptor;
+    error?: ErrorInterceptor;
+  }) => () => void;
 }
 
 // Pagination parameters for list queries
-export interface PaginationParams {
+// Pass the item type to type-check `where` field names and values
+export interface PaginationParams<T = Record<string, unknown>> {
   page?: number;
   limit?: number;
   sort?: string | string[];
-  where?: Record<string, unknown>;
+  where?: Where<T>;
 }
 
+// Cursor pagination parameters - pass pageInfo.endCursor as `after`
+export interface CursorPaginationParams<T = Record<string, unknown>>
+  extends Omit<PaginationParams<T>, "page"> {
+  after?: string | null;
+  before?: string | null;
+}
+
+// Operations a resource exposes
+export type ResourceOperation = "get" | "list" | "create" | "update" | "remove";
+
+// Path per operation (relative to the client's baseUrl), when it differs
+// from the resource name - e.g. { list: "admin/users" }
+export type ResourceEndpoints = Partial<Record<ResourceOperation, ResourcePath>>;
+
+// A top-level resource ("users") or one nested under parents, as segments:
+// ["organizations", orgId, "projects"] → /organizations/{orgId}/projects
+// Also the cache key prefix, so each parent's children are cached apart
+export type ResourcePath = string | readonly (string | number)[];
+
 // Base item with ID (most resources have this)
 export interface ResourceItem {
   id: string;
@@ -50,21 +264,188 @@ export interface ResourceItem {
   updatedAt?: string;
 }
 
+// Per-resource getItem batching (see batch.ts)
+export interface BatchOptions {
+  // Most IDs per collection request; larger batches are split (default 50)
+  maxBatchSize?: number;
+  // Item field the IDs are matched on (default "id")
+  idField?: string;
+}
+
+// Progress of a bulk operation, reported after each batch
+export interface BulkProgress {
+  completed: number;
+  failed: number;
+  total: number;
+  percent: number;
+}
+
+// Options for bulkCreate/bulkUpdate/bulkDelete
+export interface BulkOptions {
+  // Requests sent in parallel per batch (default 5)
+  batchSize?: number;
+  // Stops before the next batch; unsent items are reported as failed
+  signal?: AbortSignal;
+  onProgress?: (progress: BulkProgress) => void;
+}
+
+// One item a bulk operation couldn't apply
+export interface BulkFailure {
+  id: string;
+  message: string;
+  error?: ApiError;
+}
+
+// Partial-success result - bulk operations never throw
+// For bulkCreate, `id`s are the input indexes ("0", "1", ...)
+export interface BulkResult<T> {
+  succeeded: string[];
+  failed: BulkFailure[];
+  // Items returned for the succeeded requests, in the same order
+  data: T[];
+}
+
+// Lifecycle of a mutation saved while offline
+//   queued    → waiting for a connection
+//   replaying → being sent now
+//   conflict  → server rejected it as stale (409/412), see onConflict
+//   failed    → server rejected it for another reason (e.g. validation)
+export type QueuedMutationStatus = "queued" | "replaying" | "conflict" | "failed";
+
+// A create/update/delete saved while offline
+export interface QueuedMutation {
+  id: string;
+  // Cache key of the resource
+  resource: ResourcePath;
+  // Request path (usually the same as `resource`)
+  endpoint: ResourcePath;
+  action: "create" | "update" | "delete";
+  // Item ID for update/delete
+  itemId?: string;
+  data?: Record<string, unknown>;
+  status: QueuedMutationStatus;
+  attempts: number;
+  // Replay order
+  order: number;
+  createdAt: string;
+  error?: string;
+}
+
+// Durable storage for the offline queue
+export interface MutationStore {
+  load: () => Promise<QueuedMutation[]>;
+  put: (mutation: QueuedMutation) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+// What to do with a mutation the server rejected as stale
+//   "discard" → drop it (server wins)
+//   "keep"    → leave it as "conflict" for the UI to resolve
+//   { data }  → resend with merged data
+export type ConflictResolution = "discard" | "keep" | { data: Record<string, unknown> };
+
+// A change pushed by the server over SSE or WebSocket
+//   create → lists of the resource are refetched
+//   update → cached item is patched with `data`, or refetched without it
+//   delete → item is dropped from the cache
+// Without `id` everything cached for the resource is refetched
+export interface RealtimeEvent<T = Record<string, unknown>> {
+  // "tasks", or segments / a "a/b/c" path for a nested resource
+  resource: ResourcePath;
+  id?: string;
+  action: "create" | "update" | "delete";
+  // Changed fields (or the full item) for "update"
+  data?: Partial<T>;
+}
+
+export type RealtimeStatus = "idle" | "connecting" | "open" | "reconnecting";
+
+// Callbacks a transport reports to; `onClose` triggers a reconnect
+export interface RealtimeHandlers {
+  onOpen: () => void;
+  onEvent: (event: RealtimeEvent) => void;
+  onClose: (error?: unknown) => void;
+}
+
+// SSE, WebSocket or anything else that delivers RealtimeEvents
+// Returns a function that closes the connection without calling onClose
+export type RealtimeTransport = (handlers: RealtimeHandlers) => () => void;
+
+// Sent to sibling tabs (see tabSync.ts)
+//   invalidate/remove/clear → mirror of the cache.ts helper of the same name
+//   auth                    → session changed; `scope` is the client's refresh URL
+export type TabMessage =
+  | { type: "invalidate"; resource: ResourcePath; nested?: boolean }
+  | { type: "remove"; resource: ResourcePath; id: string }
+  | { type: "clear" }
+  | { type: "auth"; event: "login" | "logout" | "token-refreshed"; scope?: string };
+
+// Per-call upload options for useResource mutations
+export interface ResourceUploadOptions {
+  chunked?: boolean | ChunkedUploadOptions;
+}
+
 // Hook return type for single resource operations
+// Items may carry `file` (single) and/or `files` (named fields) for uploads
 export interface UseResourceReturn<TInput, TOutput> {
   data: TOutput | undefined;
+  error: ApiError | undefined;
   isLoading: boolean;
-  createItem: (item: Partial<TInput>) => Promise<ApiResponse<TOutput>>;
-  updateItem: (item: Partial<TOutput>) => Promise<ApiResponse<TOutput>>;
-  deleteItem: () => Promise<boolean>;
+  createItem: (
+    item: Partial<TInput>,
+    options?: ResourceUploadOptions
+  ) => Promise<ApiResponse<TOutput>>;
+  updateItem: (
+    item: Partial<TOutput>,
+    options?: ResourceUploadOptions
+  ) => Promise<ApiResponse<TOutput>>;
+  deleteItem: () => Promise<ApiResponse<TOutput>>;
   refetch: () => void;
+  // null when no upload is running
+  uploadProgress: UploadProgress | null;
+  cancelUpload: () => void;
+  // Offline mutations for this item still waiting to sync (offline mode)
+  pendingMutations: QueuedMutation[];
+  isQueued: boolean;
 }
 
 // Hook return type for paginated resource operations
+// Cursor mode: totalPages is undefined and pageInfo carries the cursors
 export interface UsePaginatedResourceReturn<T> {
   data: T[];
   totalPages: number | undefined;
   totalItems: number | undefined;
   currentPage: number;
+  pageInfo: PageInfo | undefined;
+  error: ApiError | undefined;
+  isLoading: boolean;
+}
+
+// Hook return type for infinite (load more) resource operations
+export interface UseInfiniteResourceReturn<T> {
+  // All loaded pages, flattened
+  data: T[];
+  totalItems: number | undefined;
+  error: ApiError | undefined;
+  isLoading: boolean;
+  hasNextPage: boolean;
+  isFetchingNextPage: boolean;
+  // No-op while a page is loading or when there are no more pages
+  fetchNextPage: () => void;
+  refetch: () => void;
+}
+
+// Hook return type for bulk actions (one hook per SelectActionBar action)
+export interface UseBulkActionReturn<T> {
+  run: (ids: string[]) => Promise<BulkResult<T>>;
   isLoading: boolean;
+  progress: BulkProgress | null;
+  // Result of the last run
+  result: BulkResult<T> | null;
+  // Set when any item in the last run failed
+  error: ApiError | undefined;
+  // Clears error/result (e.g. SelectActionBar's onErrorClose)
+  reset: () => void;
+  // Stops the run after the current batch
+  cancel: () => void;
 }
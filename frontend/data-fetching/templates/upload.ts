@@ -0,0 +1,278 @@
+/**
+ * Upload helpers: XHR progress transport, multi-file FormData and
+ * resumable chunked uploads
+ *
+ * Chunked upload server contract (relative to the client's baseUrl):
+ *   POST {endpoint}               { fileName, fileSize, mimeType } → { uploadId }
+ *   GET  {endpoint}/{uploadId}    → { uploadedBytes }
+ *   PUT  {endpoint}/{uploadId}    chunk body + Content-Range → { uploadedBytes }
+ * The resource create/update then receives `_uploads: { [field]: uploadId }`.
+ */
+
+import { NetworkError, isAbortError } from "./errors";
+import { sleep } from "./retry";
+import type {
+  ApiClient,
+  ChunkedUploadOptions,
+  UploadFiles,
+  UploadProgress,
+} from "./types";
+
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+const DEFAULT_ENDPOINT = "/uploads";
+const RESUME_STORAGE_PREFIX = "upload-session";
+// Response() throws when given a body for these
+const NULL_BODY_STATUSES = [204, 205, 304];
+
+export const toProgress = (loaded: number, total: number): UploadProgress => ({
+  loaded,
+  total,
+  percent: total > 0 ? Math.round((loaded / total) * 100) : 0,
+});
+
+/**
+ * Normalises the legacy single `file` and named `files` into one map
+ */
+export const collectFiles = (file?: File, files?: UploadFiles): UploadFiles => ({
+  ...(file ? { file } : {}),
+  ...files,
+});
+
+/**
+ * Builds multipart body: each file under its field name, data as `_payload`
+ */
+export const buildFormData = (
+  data: Record<string, unknown>,
+  files: UploadFiles
+): FormData => {
+  const formData = new FormData();
+
+  Object.entries(files).forEach(([field, value]) => {
+    (Array.isArray(value) ? value : [value]).forEach((file) => {
+      formData.append(field, file);
+    });
+  });
+
+  formData.append("_payload", JSON.stringify(data));
+  return formData;
+};
+
+/**
+ * fetch()-compatible transport over XMLHttpRequest
+ * fetch() can't report upload progress; XHR can
+ */
+export const xhrFetch = (
+  url: string,
+  init: RequestInit,
+  onUploadProgress: (progress: UploadProgress) => void
+): Promise<Response> => {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(init.method ?? "GET", url);
+    xhr.withCredentials = init.credentials === "include";
+    xhr.responseType = "blob";
+
+    Object.entries((init.headers as Record<string, string>) ?? {}).forEach(
+      ([key, value]) => xhr.setRequestHeader(key, value)
+    );
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onUploadProgress(toProgress(event.loaded, event.total));
+      }
+    };
+
+    xhr.onload = () => {
+      const headers = new Headers();
+      xhr
+        .getAllResponseHeaders()
+        .trim()
+        .split(/[\r\n]+/)
+        .forEach((line) => {
+          const index = line.indexOf(":");
+          if (index > 0) {
+            headers.append(line.slice(0, index).trim(), line.slice(index + 1).trim());
+          }
+        });
+
+      const body = NULL_BODY_STATUSES.includes(xhr.status) ? null : xhr.response;
+      try {
+        resolve(new Response(body, { status: xhr.status, headers }));
+      } catch (error) {
+        reject(error);
+      }
+    };
+
+    xhr.onerror = () => reject(new TypeError("Network request failed"));
+    xhr.onabort = () => reject(new DOMException("Upload aborted", "AbortError"));
+
+    if (init.signal) {
+      if (init.signal.aborted) return xhr.abort();
+      init.signal.addEventListener("abort", () => xhr.abort(), { once: true });
+    }
+
+    xhr.send(init.body as XMLHttpRequestBodyInit | null);
+  });
+};
+
+// ============ CHUNKED / RESUMABLE ============
+
+const resumeKey = (endpoint: string, file: File): string =>
+  `${RESUME_STORAGE_PREFIX}:${endpoint}:${file.name}:${file.size}:${file.lastModified}`;
+
+const readSession = (key: string): string | null =>
+  typeof localStorage === "undefined" ? null : localStorage.getItem(key);
+
+const writeSession = (key: string, uploadId: string | null): void => {
+  if (typeof localStorage === "undefined") return;
+  if (uploadId) localStorage.setItem(key, uploadId);
+  else localStorage.removeItem(key);
+};
+
+interface ChunkedUploadParams extends ChunkedUploadOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+/**
+ * Uploads a file in chunks, resuming from the last acknowledged byte
+ * A failed upload can be resumed by calling again with the same File
+ * (the session ID is kept in localStorage until the upload completes)
+ *
+ * Returns the server's uploadId
+ */
+export const uploadChunked = async (
+  client: ApiClient,
+  file: File,
+  {
+    endpoint = DEFAULT_ENDPOINT,
+    chunkSize = DEFAULT_CHUNK_SIZE,
+    retries = 3,
+    signal,
+    onProgress,
+  }: ChunkedUploadParams = {}
+): Promise<string> => {
+  const key = resumeKey(endpoint, file);
+  let uploadId = readSession(key);
+  let offset = 0;
+
+  // How many bytes of the session the server has stored
+  const fetchOffset = async (id: string): Promise<number> => {
+    const status = await client.api<{ uploadedBytes: number }>(
+      `${endpoint}/${id}`,
+      null,
+      { method: "GET", signal }
+    );
+    return status.uploadedBytes;
+  };
+
+  // Resume: ask the server how much it already has
+  if (uploadId) {
+    try {
+      offset = await fetchOffset(uploadId);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      // Session expired or unknown on the server - start over
+      uploadId = null;
+    }
+  }
+
+  if (!uploadId) {
+    const session = await client.api<{ uploadId: string }>(
+      endpoint,
+      { fileName: file.name, fileSize: file.size, mimeType: file.type },
+      { method: "POST", signal }
+    );
+    uploadId = session.uploadId;
+    writeSession(key, uploadId);
+  }
+
+  onProgress?.(toProgress(offset, file.size));
+
+  // Failed attempts in a row - reset whenever a chunk is acknowledged
+  let failures = 0;
+
+  while (offset < file.size) {
+    const end = Math.min(offset + chunkSize, file.size);
+    const chunk = file.slice(offset, end);
+    const chunkStart = offset;
+
+    try {
+      const ack = await client.request<{ uploadedBytes: number }>(
+        `${endpoint}/${uploadId}`,
+        {
+          method: "PUT",
+          body: chunk,
+          headers: {
+            "Content-Type": "application/octet-stream",
+            "Content-Range": `bytes ${chunkStart}-${end - 1}/${file.size}`,
+          },
+          signal,
+          // Retried below instead, from the server's offset
+          retry: false,
+          onUploadProgress: onProgress
+            ? ({ loaded }) => onProgress(toProgress(chunkStart + loaded, file.size))
+            : undefined,
+        }
+      );
+      offset = ack.uploadedBytes;
+      failures = 0;
+    } catch (error) {
+      failures += 1;
+      if (!(error instanceof NetworkError) || failures >= retries) throw error;
+      await sleep(1000 * failures, signal);
+
+      // Part of the chunk may have been stored before the connection
+      // dropped - resend from what the server has, not from `chunkStart`
+      try {
+        offset = await fetchOffset(uploadId);
+      } catch (statusError) {
+        if (isAbortError(statusError)) throw statusError;
+      }
+    }
+
+    onProgress?.(toProgress(offset, file.size));
+  }
+
+  writeSession(key, null);
+  return uploadId;
+};
+
+/**
+ * Uploads every file in chunked mode and returns the `_uploads` map
+ * Progress is aggregated across all files
+ */
+export const uploadFilesChunked = async (
+  client: ApiClient,
+  files: UploadFiles,
+  params: ChunkedUploadParams = {}
+): Promise<Record<string, string | string[]>> => {
+  const entries = Object.entries(files);
+  const all = entries.flatMap(([, value]) => (Array.isArray(value) ? value : [value]));
+  const total = all.reduce((sum, file) => sum + file.size, 0);
+  const loadedByFile = new Map<File, number>();
+
+  const report = (file: File, loaded: number) => {
+    loadedByFile.set(file, loaded);
+    const loadedTotal = [...loadedByFile.values()].reduce((sum, n) => sum + n, 0);
+    params.onProgress?.(toProgress(loadedTotal, total));
+  };
+
+  const uploads: Record<string, string | string[]> = {};
+
+  // Sequential on purpose: parallel chunk streams compete on flaky connections
+  for (const [field, value] of entries) {
+    const ids: string[] = [];
+    for (const file of Array.isArray(value) ? value : [value]) {
+      ids.push(
+        await uploadChunked(client, file, {
+          ...params,
+          onProgress: ({ loaded }) => report(file, loaded),
+        })
+      );
+    }
+    uploads[field] = Array.isArray(value) ? ids : ids[0];
+  }
+
+  return uploads;
+};
@@ -0,0 +1,130 @@
+/**
+ * Hook for bulk actions on selected rows - one hook per SelectActionBar action
+ *
+ * Usage:
+ *   const deleteSelected = useBulkAction({ resource: "tasks", action: "delete" });
+ *   const archiveSelected = useBulkAction({
+ *     resource: "tasks",
+ *     action: "update",
+ *     data: { archived: true },
+ *   });
+ *
+ *   <SelectActionBar
+ *     active={selected.size > 0}
+ *     error={Boolean(deleteSelected.error)}
+ *     errorMessage={deleteSelected.error?.message}
+ *     onErrorClose={deleteSelected.reset}
+ *     actions={[
+ *       {
+ *         id: "delete",
+ *         label: "Delete Selected",
+ *         isLoading: deleteSelected.isLoading,
+ *         onClick: async () => {
+ *           const { failed } = await deleteSelected.run([...selected]);
+ *           // Keep the failed rows selected so they can be retried
+ *           setSelected(new Set(failed.map((f) => f.id)));
+ *         },
+ *       },
+ *     ]}
+ *     onClose={() => setSelected(new Set())}
+ *   />
+ */
+
+import { useRef, useState } from "react";
+import { getCrud } from "./crud";
+import {
+  invalidateChildren,
+  invalidateResource,
+  removeFromCache,
+} from "./cache";
+import { ApiError } from "./errors";
+import type {
+  ApiClient,
+  BulkProgress,
+  BulkResult,
+  ResourceItem,
+  ResourcePath,
+  UseBulkActionReturn,
+} from "./types";
+
+type UseBulkActionParams = {
+  resource: ResourcePath;
+  // Requests sent in parallel per batch (default 5)
+  batchSize?: number;
+  // Defaults to the app-wide apiClient
+  client?: ApiClient;
+  // Request path when it differs from `resource` (still the cache key)
+  endpoint?: ResourcePath;
+} & ({ action: "delete" } | { action: "update"; data: Record<string, unknown> });
+
+const PAST_TENSE = { delete: "deleted", update: "updated" } as const;
+
+export default function useBulkAction<T = ResourceItem>(
+  params: UseBulkActionParams
+): UseBulkActionReturn<T> {
+  const { resource, batchSize, client, endpoint = resource } = params;
+  const { bulkDelete, bulkUpdate } = getCrud(client);
+  const [isLoading, setIsLoading] = useState(false);
+  const [progress, setProgress] = useState<BulkProgress | null>(null);
+  const [result, setResult] = useState<BulkResult<T> | null>(null);
+  const [error, setError] = useState<ApiError | undefined>(undefined);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const run = async (ids: string[]): Promise<BulkResult<T>> => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setIsLoading(true);
+    setError(undefined);
+    setProgress({ completed: 0, failed: 0, total: ids.length, percent: 0 });
+
+    const options = { batchSize, signal: controller.signal, onProgress: setProgress };
+    const next =
+      params.action === "delete"
+        ? await bulkDelete<T>(endpoint, ids, options)
+        : await bulkUpdate<T>(endpoint, ids, params.data, options);
+
+    if (params.action === "delete") {
+      next.succeeded.forEach((id) => {
+        removeFromCache(resource, id);
+        invalidateChildren(resource, id);
+      });
+    }
+
+    // One refetch for the whole batch, not one per item
+    if (next.succeeded.length > 0) invalidateResource(resource);
+
+    // A newer run owns the state now
+    if (controllerRef.current !== controller) return next;
+    controllerRef.current = null;
+
+    setIsLoading(false);
+    setProgress(null);
+    setResult(next);
+
+    if (next.failed.length > 0) {
+      setError(
+        new ApiError(
+          `${next.failed.length} of ${ids.length} couldn't be ${PAST_TENSE[params.action]}`,
+          { code: "BULK_PARTIAL_FAILURE", details: next.failed }
+        )
+      );
+    }
+
+    return next;
+  };
+
+  return {
+    run,
+    isLoading,
+    progress,
+    result,
+    error,
+    reset: () => {
+      setResult(null);
+      setError(undefined);
+    },
+    cancel: () => controllerRef.current?.abort(),
+  };
+}
@@ -0,0 +1,132 @@
+/**
+ * Hook for infinite scroll / "load more" resource collections
+ *
+ * Usage:
+ *   const { data, fetchNextPage, hasNextPage, isFetchingNextPage } =
+ *     useInfiniteResource<Activity>({
+ *       resource: "activities",
+ *       limit: 20,
+ *       sort: "-createdAt",
+ *       mode: "cursor", // Optional: follow pageInfo.endCursor instead of page numbers
+ *     });
+ *
+ *   <ActivityList items={data} />
+ *   <InfiniteScrollSentinel
+ *     onVisible={fetchNextPage}
+ *     disabled={!hasNextPage || isFetchingNextPage}
+ *   />
+ */
+
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { getCrud } from "./crud";
+import type { ApiError } from "./errors";
+import { queryKeys } from "./cache";
+import type {
+  ApiClient,
+  CursorPaginatedResponse,
+  PaginatedResponse,
+  PaginationMode,
+  PaginationParams,
+  ResourcePath,
+  ResponseValidation,
+  UseInfiniteResourceReturn,
+} from "./types";
+
+interface UseInfiniteResourceParams<T>
+  extends Omit<PaginationParams<T>, "page">,
+    ResponseValidation<T> {
+  resource: ResourcePath;
+  // Defaults to "offset" (page numbers)
+  mode?: PaginationMode;
+  enabled?: boolean;
+  publicEndpoint?: boolean;
+  // Defaults to the app-wide apiClient
+  client?: ApiClient;
+  // Request path when it differs from `resource` (still the cache key)
+  endpoint?: ResourcePath;
+}
+
+export default function useInfiniteResource<T>({
+  resource,
+  limit = 20,
+  sort,
+  where,
+  mode = "offset",
+  enabled = true,
+  publicEndpoint = false,
+  client,
+  endpoint = resource,
+  schema,
+  validation,
+}: UseInfiniteResourceParams<T>): UseInfiniteResourceReturn<T> {
+  const crud = getCrud(client);
+  const isCursor = mode === "cursor";
+
+  const fetchFn = publicEndpoint ? crud.getPublicCollection : crud.getCollection;
+  const fetchCursorFn = publicEndpoint
+    ? crud.getPublicCursorCollection
+    : crud.getCursorCollection;
+
+  const {
+    data,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    isLoading,
+    refetch,
+  } = useInfiniteQuery({
+    queryKey: queryKeys.infinite(resource, { mode, limit, sort, where }),
+    queryFn: async ({ pageParam }) => {
+      const result = isCursor
+        ? await fetchCursorFn<T>(
+            endpoint,
+            { after: pageParam as string | null, limit, sort, where },
+            { schema, validation }
+          )
+        : await fetchFn<T>(
+            endpoint,
+            { page: pageParam as number, limit, sort, where },
+            { schema, validation }
+          );
+
+      // Throw so a failed page isn't stored (and flattened) as data
+      if ("success" in result && !result.success) throw result.error;
+
+      return result as PaginatedResponse<T> | CursorPaginatedResponse<T>;
+    },
+    initialPageParam: (isCursor ? null : 1) as string | number | null,
+    getNextPageParam: (lastPage) => {
+      if ("pageInfo" in lastPage) {
+        return lastPage.pageInfo.hasNextPage ? lastPage.pageInfo.endCursor : undefined;
+      }
+      return lastPage.hasNextPage ? (lastPage.nextPage ?? lastPage.page + 1) : undefined;
+    },
+    enabled: enabled && Boolean(resource),
+    refetchOnWindowFocus: false,
+  });
+
+  return {
+    data: data?.pages.flatMap((page) => page.data) ?? [],
+    totalItems: data?.pages[0]?.totalDocs,
+    error: (error as ApiError | null) ?? undefined,
+    isLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage: () => {
+      if (hasNextPage && !isFetchingNextPage) fetchNextPage();
+    },
+    refetch: () => {
+      refetch();
+    },
+  };
+}
+
+/**
+ * Public variant for unauthenticated endpoints
+ */
+export function usePublicInfiniteResource<T>(
+  params: Omit<UseInfiniteResourceParams<T>, "publicEndpoint">
+): UseInfiniteResourceReturn<T> {
+  return useInfiniteResource<T>({ ...params, publicEndpoint: true });
+}
@@ -0,0 +1,96 @@
+/**
+ * Hook that keeps a resource's cached data live while mounted
+ *
+ * Pair it with the data hooks - they keep reading from the cache, this hook
+ * keeps the cache up to date (see realtime.ts).
+ *
+ * Usage:
+ *   const { data } = usePaginatedResource<Task>({ resource: "tasks", page });
+ *   const { status } = useLiveResource({ resource: "tasks" });
+ *   {status === "reconnecting" && <Pill>Reconnecting…</Pill>}
+ *
+ *   // Nested resource - same key as the data hook's `resource`
+ *   useLiveResource({ resource: ["organizations", orgId, "tasks"] });
+ *
+ *   // defineResource with a custom idField - patch cached items by it
+ *   useLiveResource({ resource: users.name, getId: users.getId });
+ *
+ *   // React to a specific item changing under the user
+ *   useLiveResource({
+ *     resource: "tasks",
+ *     id: taskId,
+ *     onEvent: (event) => event.action === "delete" && navigate("/tasks"),
+ *   });
+ */
+
+import { useEffect, useRef, useSyncExternalStore } from "react";
+import { getRealtimeClient, type RealtimeClient } from "./realtime";
+import { resourceUrl } from "./resourcePath";
+import type { ItemIdGetter } from "./cache";
+import type {
+  RealtimeEvent,
+  RealtimeStatus,
+  ResourceItem,
+  ResourcePath,
+} from "./types";
+
+interface UseLiveResourceParams<T extends ResourceItem> {
+  // "tasks", or segments for a nested resource (see resourcePath.ts)
+  resource: ResourcePath;
+  // Only call onEvent for this item (resource-wide events still come through)
+  id?: string | null;
+  // Default true; false closes the subscription
+  enabled?: boolean;
+  // Called after the cache has been updated
+  onEvent?: (event: RealtimeEvent) => void;
+  // Defaults to the app-wide client
+  client?: RealtimeClient;
+  // Reads item IDs when they aren't under `id` (read when subscribing)
+  getId?: ItemIdGetter<T>;
+}
+
+const getIdle = (): RealtimeStatus => "idle";
+
+export default function useLiveResource<T extends ResourceItem = ResourceItem>({
+  resource,
+  id,
+  enabled = true,
+  onEvent,
+  client = getRealtimeClient(),
+  getId,
+}: UseLiveResourceParams<T>): { status: RealtimeStatus } {
+  // Latest callback, path and getter without resubscribing on every render
+  const onEventRef = useRef(onEvent);
+  const resourceRef = useRef(resource);
+  const getIdRef = useRef(getId);
+  useEffect(() => {
+    onEventRef.current = onEvent;
+    resourceRef.current = resource;
+    getIdRef.current = getId;
+  });
+
+  // Compared by URL so an inline ["orgs", id, "tasks"] is stable
+  const path = resourceUrl(resource);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    return client.subscribe(
+      resourceRef.current,
+      (event) => {
+        if (id && event.id && event.id !== id) return;
+        onEventRef.current?.(event);
+      },
+      // Event data is untyped anyway - the cache holds this resource's items
+      getIdRef.current as ItemIdGetter<ResourceItem> | undefined
+    );
+  }, [client, path, id, enabled]);
+
+  const status = useSyncExternalStore(
+    client.subscribeStatus,
+    client.getStatus,
+    getIdle
+  );
+
+  return { status: enabled ? status : "idle" };
+}
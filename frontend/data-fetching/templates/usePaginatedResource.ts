@@ -8,33 +8,58 @@
  *     limit: 10,
  *     where: { status: { equals: "active" } },
  *   });
+ *
+ *   // Cursor mode - pass the previous pageInfo.endCursor as `after`
+ *   const { data, pageInfo } = usePaginatedResource<Event>({
+ *     resource: "events",
+ *     mode: "cursor",
+ *     after: cursor,
+ *   });
  */
 
 import { useQuery } from "@tanstack/react-query";
-import { getCollection, getPublicCollection } from "./crud";
-// NOTE: Import from your project's utils location (e.g., ~/utils/queryString)
-import { buildCacheKey } from "~/utils/queryString";
+import { getCrud } from "./crud";
+import { queryKeys } from "./cache";
 import type {
+  ApiClient,
+  ApiResponse,
+  CursorPaginatedResponse,
+  CursorPaginationParams,
   PaginatedResponse,
+  PaginationMode,
   PaginationParams,
+  ResourcePath,
+  ResponseValidation,
   UsePaginatedResourceReturn,
 } from "./types";
 
-interface UsePaginatedResourceParams extends PaginationParams {
-  resource: string;
+export interface UsePaginatedResourceParams<T>
+  extends PaginationParams<T>,
+    Pick<CursorPaginationParams<T>, "after" | "before">,
+    ResponseValidation<T> {
+  resource: ResourcePath;
+  // Defaults to "offset" (page/limit)
+  mode?: PaginationMode;
   enabled?: boolean;
   publicEndpoint?: boolean;
+  // Defaults to the app-wide apiClient
+  client?: ApiClient;
+  // Request path when it differs from `resource` (still the cache key)
+  endpoint?: ResourcePath;
 }
 
-/**
- * Creates a unique cache key for pagination queries
- */
-const createPaginationKey = (
-  resource: string,
-  params: PaginationParams
-): string => {
-  return `${resource}-list-${buildCacheKey(params)}`;
-};
+// Either collection shape, or the failure crud returns instead of throwing
+type CollectionResult<T> =
+  | PaginatedResponse<T>
+  | CursorPaginatedResponse<T>
+  | ApiResponse<never>;
+
+const isFailure = <T>(data: CollectionResult<T>): data is ApiResponse<never> =>
+  "success" in data;
+
+const isCursorPage = <T>(
+  data: CollectionResult<T>
+): data is CursorPaginatedResponse<T> => "pageInfo" in data;
 
 export default function usePaginatedResource<T>({
   resource,
@@ -42,28 +67,76 @@ export default function usePaginatedResource<T>({
   limit = 10,
   sort,
   where,
+  after,
+  before,
+  mode = "offset",
   enabled = true,
   publicEndpoint = false,
-}: UsePaginatedResourceParams): UsePaginatedResourceReturn<T> {
-  const cacheKey = createPaginationKey(resource, { page, limit, sort, where });
+  client,
+  endpoint = resource,
+  schema,
+  validation,
+}: UsePaginatedResourceParams<T>): UsePaginatedResourceReturn<T> {
+  const crud = getCrud(client);
+  const isCursor = mode === "cursor";
+
+  // Offset and cursor params never mix, so their cache keys never collide
+  const cursorParams: CursorPaginationParams<T> = {
+    limit,
+    sort,
+    where,
+    after,
+    before,
+  };
+  const offsetParams: PaginationParams<T> = { page, limit, sort, where };
+  const params = isCursor ? cursorParams : offsetParams;
 
-  const fetchFn = publicEndpoint ? getPublicCollection : getCollection;
+  const fetchFn = publicEndpoint ? crud.getPublicCollection : crud.getCollection;
+  const fetchCursorFn = publicEndpoint
+    ? crud.getPublicCursorCollection
+    : crud.getCursorCollection;
 
   const { data, isLoading } = useQuery({
-    queryKey: [cacheKey],
-    queryFn: () => fetchFn<T>(resource, { page, limit, sort, where }),
+    queryKey: queryKeys.list(resource, params),
+    queryFn: (): Promise<CollectionResult<T>> =>
+      isCursor
+        ? fetchCursorFn<T>(endpoint, cursorParams, { schema, validation })
+        : fetchFn<T>(endpoint, offsetParams, { schema, validation }),
     enabled: enabled && Boolean(resource),
     refetchOnWindowFocus: false,
   });
 
-  // Handle error response vs paginated response
-  const isPaginated = data && "docs" in data;
+  if (data && isFailure(data)) {
+    return {
+      data: [],
+      totalPages: undefined,
+      totalItems: undefined,
+      currentPage: page,
+      pageInfo: undefined,
+      error: data.error,
+      isLoading,
+    };
+  }
+
+  if (data && isCursorPage(data)) {
+    return {
+      data: data.data,
+      totalPages: undefined,
+      totalItems: data.totalDocs,
+      currentPage: page,
+      pageInfo: data.pageInfo,
+      error: undefined,
+      isLoading,
+    };
+  }
 
   return {
-    data: isPaginated ? (data as PaginatedResponse<T>).data : [],
-    totalPages: isPaginated ? (data as PaginatedResponse<T>).totalPages : undefined,
-    totalItems: isPaginated ? (data as PaginatedResponse<T>).totalDocs : undefined,
+    data: data?.data ?? [],
+    totalPages: data?.totalPages,
+    totalItems: data?.totalDocs,
     currentPage: page,
+    pageInfo: undefined,
+    error: undefined,
     isLoading,
   };
 }
@@ -72,7 +145,7 @@ export default function usePaginatedResource<T>({
  * Public variant for unauthenticated endpoints
  */
 export function usePublicPaginatedResource<T>(
-  params: Omit<UsePaginatedResourceParams, "publicEndpoint">
+  params: Omit<UsePaginatedResourceParams<T>, "publicEndpoint">
 ): UsePaginatedResourceReturn<T> {
   return usePaginatedResource<T>({ ...params, publicEndpoint: true });
 }
@@ -0,0 +1,53 @@
+/**
+ * Hook for offline mutations that haven't synced yet
+ *
+ * Usage:
+ *   // App-wide sync indicator
+ *   const pending = usePendingMutations();
+ *   {pending.length > 0 && <Pill>{pending.length} changes waiting to sync</Pill>}
+ *
+ *   // One resource, with retry for rejected changes
+ *   const pending = usePendingMutations({ resource: "tasks" });
+ *   pending
+ *     .filter((m) => m.status === "failed" || m.status === "conflict")
+ *     .map((m) => <Button onClick={() => getOfflineQueue().retry(m.id)}>Retry</Button>);
+ */
+
+import { useMemo, useSyncExternalStore } from "react";
+import { getOfflineQueue, type OfflineQueue } from "./offline";
+import { resourceUrl } from "./resourcePath";
+import type { QueuedMutation, ResourcePath } from "./types";
+
+interface UsePendingMutationsParams {
+  resource?: ResourcePath;
+  id?: string | null;
+  // Defaults to the app-wide queue; null disables (nothing is subscribed)
+  queue?: OfflineQueue | null;
+}
+
+const EMPTY: QueuedMutation[] = [];
+const subscribeNone = () => () => {};
+const getNone = () => EMPTY;
+
+export default function usePendingMutations({
+  resource,
+  id,
+  queue = getOfflineQueue(),
+}: UsePendingMutationsParams = {}): QueuedMutation[] {
+  const mutations = useSyncExternalStore(
+    queue?.subscribe ?? subscribeNone,
+    queue?.getSnapshot ?? getNone,
+    getNone
+  );
+
+  // Compared by URL so an inline ["orgs", id, "projects"] is stable
+  const path = resource ? resourceUrl(resource) : null;
+
+  return useMemo(
+    () =>
+      mutations.filter(
+        (m) => (!path || resourceUrl(m.resource) === path) && (!id || m.itemId === id)
+      ),
+    [mutations, path, id]
+  );
+}
@@ -5,21 +5,83 @@
  *   const { data, isLoading, updateItem } = useResource<UserInput, User>({
  *     resource: "users",
  *     id: userId,
+ *     optimistic: true, // Optional: apply updates/deletes before the server replies
+ *     schema: userSchema, // Optional: validate responses (see validation.ts)
+ *     offline: true, // Optional: queue mutations while offline (see offline.ts)
+ *   });
+ *
+ *   // Nested resource - /organizations/{orgId}/projects/{projectId}
+ *   useResource<ProjectInput, Project>({
+ *     resource: ["organizations", orgId, "projects"],
+ *     id: projectId,
  *   });
  */
 
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
-import { createItem, getItem, updateItem, deleteItem } from "./crud";
-import { createCacheKey, invalidateResource, removeFromCache } from "./cache";
-import type { ApiResponse, ResourceItem, UseResourceReturn } from "./types";
+import { getCrud, type MutationOptions } from "./crud";
+import { NetworkError } from "./errors";
+import {
+  getOfflineQueue,
+  isOnline,
+  type NewMutation,
+  type OfflineQueue,
+} from "./offline";
+import usePendingMutations from "./usePendingMutations";
+import {
+  invalidateChildren,
+  invalidateResource,
+  queryKeys,
+  removeFromCache,
+  restoreSnapshot,
+  setCachedItem,
+  snapshotItem,
+  type ItemIdGetter,
+} from "./cache";
+import type {
+  ApiClient,
+  ApiResponse,
+  ResourceEndpoints,
+  ResourceItem,
+  ResourcePath,
+  ResourceUploadOptions,
+  ResponseValidation,
+  UploadFiles,
+  UploadProgress,
+  UseResourceReturn,
+} from "./types";
 
-interface UseResourceParams {
-  resource: string;
+export interface UseResourceParams<TOutput = ResourceItem>
+  extends ResponseValidation<TOutput> {
+  // "users", or segments for a nested resource (see resourcePath.ts)
+  resource: ResourcePath;
   id?: string | null;
   enabled?: boolean;
+  // Defaults to the app-wide apiClient
+  client?: ApiClient;
+  // Request paths when they differ from `resource` (still the cache key)
+  endpoints?: ResourceEndpoints;
+  // Write updates/deletes to the cache (detail + list pages) immediately,
+  // rolling back if the server rejects them
+  optimistic?: boolean;
+  // Queue mutations that fail for lack of a connection and replay them on
+  // reconnect - `true` uses the app-wide queue
+  offline?: boolean | OfflineQueue;
+  // Finds the item in cached lists when it isn't keyed by `id`
+  getId?: ItemIdGetter<TOutput>;
 }
 
+/**
+ * Splits `file`/`files` out of an item so the rest can be sent as data
+ */
+const splitUploads = (item: unknown) => {
+  const { file, files, ...data } = item as Record<string, unknown> & {
+    file?: File;
+    files?: UploadFiles;
+  };
+  return { data, uploads: { file, files } };
+};
+
 export default function useResource<
   TInput = Record<string, unknown>,
   TOutput extends ResourceItem = ResourceItem,
@@ -27,34 +89,110 @@ export default function useResource<
   resource,
   id,
   enabled = true,
-}: UseResourceParams): UseResourceReturn<TInput, TOutput> {
+  client,
+  endpoints = {},
+  optimistic = false,
+  offline = false,
+  getId,
+  schema,
+  validation,
+}: UseResourceParams<TOutput>): UseResourceReturn<TInput, TOutput> {
   const queryClient = useQueryClient();
+  const { createItem, getItem, updateItem, deleteItem } = getCrud(client);
   const [isDeleted, setIsDeleted] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
+  const uploadControllerRef = useRef<AbortController | null>(null);
+
+  const queue = offline === true ? getOfflineQueue() : offline || null;
+  const pendingMutations = usePendingMutations({ resource, id, queue });
+  const isQueued = pendingMutations.some(
+    (m) => m.status === "queued" || m.status === "replaying"
+  );
 
-  const cacheKey = createCacheKey(resource, id || undefined);
   const shouldFetch = enabled && Boolean(resource && id && !isDeleted);
 
   // Fetch single item
   const { data, isLoading, refetch } = useQuery({
-    queryKey: [cacheKey],
-    queryFn: () => getItem<TOutput>(resource, id!),
+    queryKey: queryKeys.detail(resource, id ?? null),
+    queryFn: () =>
+      getItem<TOutput>(endpoints.get ?? resource, id!, { schema, validation }),
     enabled: shouldFetch,
     refetchOnWindowFocus: false,
   });
 
+  /**
+   * Builds mutation options, tracking progress + cancellation when uploading
+   */
+  const withUploads = (
+    uploads: Pick<MutationOptions, "file" | "files">,
+    options: ResourceUploadOptions = {}
+  ): MutationOptions | undefined => {
+    if (!uploads.file && !uploads.files) return undefined;
+
+    uploadControllerRef.current?.abort();
+    const controller = new AbortController();
+    uploadControllerRef.current = controller;
+    setUploadProgress({ loaded: 0, total: 0, percent: 0 });
+
+    return {
+      ...uploads,
+      chunked: options.chunked,
+      signal: controller.signal,
+      onProgress: setUploadProgress,
+    };
+  };
+
+  // Only the latest upload clears the shared progress state
+  const finishUpload = (options?: MutationOptions) => {
+    if (!options || uploadControllerRef.current?.signal !== options.signal) return;
+    uploadControllerRef.current = null;
+    setUploadProgress(null);
+  };
+
+  /**
+   * Sends a mutation, or saves it to the offline queue when there's no
+   * connection (or earlier changes to this item are still waiting to sync)
+   */
+  const sendOrQueue = async <T>(
+    mutation: NewMutation,
+    send: () => Promise<ApiResponse<T>>
+  ): Promise<ApiResponse<T>> => {
+    if (!queue) return send();
+
+    if (isOnline() && !isQueued) {
+      const result = await send();
+      if (!(result.error instanceof NetworkError)) return result;
+    }
+
+    await queue.enqueue(mutation);
+    if (isOnline()) void queue.replay();
+
+    return {
+      success: true,
+      queued: true,
+      message: "Saved offline - will sync when back online",
+    };
+  };
+
   // Create new item
   const create = async (
-    item: Partial<TInput>
+    item: Partial<TInput>,
+    options?: ResourceUploadOptions
   ): Promise<ApiResponse<TOutput>> => {
-    const { file, ...rest } = item as Record<string, unknown> & { file?: File };
+    const { data: rest, uploads } = splitUploads(item);
 
-    const result = await createItem<TOutput>(
-      resource,
-      rest as Record<string, unknown>,
-      file ? { file } : undefined
-    );
+    const endpoint = endpoints.create ?? resource;
+    const mutationOptions = withUploads(uploads, options);
+    const send = () =>
+      createItem<TOutput>(endpoint, rest, { ...mutationOptions, schema, validation });
 
-    if (result.success) {
+    // Uploads always go straight to the server, never through the queue
+    const result = mutationOptions
+      ? await send()
+      : await sendOrQueue({ resource, endpoint, action: "create", data: rest }, send);
+    finishUpload(mutationOptions);
+
+    if (result.success && !result.queued) {
       invalidateResource(resource);
     }
 
@@ -63,46 +201,114 @@ export default function useResource<
 
   // Update existing item
   const update = async (
-    item: Partial<TOutput>
+    item: Partial<TOutput>,
+    options?: ResourceUploadOptions
   ): Promise<ApiResponse<TOutput>> => {
     if (!id) {
       return { success: false, message: "No ID provided for update" };
     }
 
-    const { file, ...rest } = item as Record<string, unknown> & { file?: File };
+    const { data: rest, uploads } = splitUploads(item);
 
-    const result = await updateItem<TOutput>(
-      resource,
-      id,
-      rest as Record<string, unknown>,
-      file ? { file } : undefined
-    );
+    const mutationOptions = withUploads(uploads, options);
 
-    if (result.success) {
-      invalidateResource(resource);
+    // Uploads aren't patched optimistically - there's no URL for the file yet
+    const snapshot =
+      optimistic && !mutationOptions ? await snapshotItem(resource, id) : null;
+
+    if (snapshot) {
+      setCachedItem<TOutput>(
+        resource,
+        id,
+        (current) => ({ ...current, ...(rest as Partial<TOutput>) }),
+        getId
+      );
+    }
+
+    const endpoint = endpoints.update ?? resource;
+    const send = () =>
+      updateItem<TOutput>(endpoint, id, rest, {
+        ...mutationOptions,
+        schema,
+        validation,
+      });
+
+    const result = mutationOptions
+      ? await send()
+      : await sendOrQueue(
+          { resource, endpoint, action: "update", itemId: id, data: rest },
+          send
+        );
+    finishUpload(mutationOptions);
+
+    if (!result.success) {
+      if (snapshot) restoreSnapshot(snapshot);
+      return result;
     }
 
+    // Show the edit now - the server's copy arrives when the queue replays
+    if (result.queued) {
+      setCachedItem<TOutput>(
+        resource,
+        id,
+        (current) => ({ ...current, ...(rest as Partial<TOutput>) }),
+        getId
+      );
+      return result;
+    }
+
+    // Reconcile with the server's copy before the background refetch
+    if (snapshot && result.data) {
+      const doc = result.data;
+      setCachedItem<TOutput>(resource, id, () => doc, getId);
+    }
+
+    invalidateResource(resource);
+
     return result;
   };
 
   // Delete item
-  const remove = async (): Promise<boolean> => {
-    if (!id) return false;
+  const remove = async (): Promise<ApiResponse<TOutput>> => {
+    if (!id) {
+      return { success: false, message: "No ID provided for delete" };
+    }
+
+    const snapshot = optimistic ? await snapshotItem(resource, id) : null;
+
+    if (snapshot) {
+      setCachedItem<TOutput>(resource, id, () => null, getId);
+    }
+
+    const endpoint = endpoints.remove ?? resource;
+    const result = await sendOrQueue(
+      { resource, endpoint, action: "delete", itemId: id },
+      () => deleteItem<TOutput>(endpoint, id)
+    );
 
-    const result = await deleteItem(resource, id);
+    if (result.queued) {
+      setIsDeleted(true);
+      setCachedItem<TOutput>(resource, id, () => null, getId);
+      return result;
+    }
 
     if (result.success) {
       setIsDeleted(true);
       removeFromCache(resource, id);
       invalidateResource(resource);
-      return true;
+      // Its sub-resources (e.g. the project's tasks) went with it
+      invalidateChildren(resource, id);
+      return result;
     }
 
-    return false;
+    if (snapshot) restoreSnapshot(snapshot);
+
+    return result;
   };
 
   return {
     data: data?.data,
+    error: data?.error,
     isLoading,
     createItem: create,
     updateItem: update,
@@ -110,21 +316,32 @@ export default function useResource<
     refetch: () => {
       if (!isDeleted) refetch();
     },
+    uploadProgress,
+    cancelUpload: () => uploadControllerRef.current?.abort(),
+    pendingMutations,
+    isQueued,
   };
 }
 
 /**
  * Standalone hook for creating items without loading existing data
  */
-export function useCreateResource<TInput, TOutput>(resource: string) {
+export function useCreateResource<TInput, TOutput>(
+  resource: ResourcePath,
+  client?: ApiClient,
+  endpoint: ResourcePath = resource,
+  { schema, validation }: ResponseValidation<TOutput> = {}
+) {
+  const { createItem } = getCrud(client);
+
   const create = async (item: TInput): Promise<ApiResponse<TOutput>> => {
-    const { file, ...rest } = item as Record<string, unknown> & { file?: File };
+    const { data: rest, uploads } = splitUploads(item);
 
-    const result = await createItem<TOutput>(
-      resource,
-      rest as Record<string, unknown>,
-      file ? { file } : undefined
-    );
+    const result = await createItem<TOutput>(endpoint, rest, {
+      ...uploads,
+      schema,
+      validation,
+    });
 
     if (result.success) {
       invalidateResource(resource);
@@ -0,0 +1,132 @@
+/**
+ * Runtime response validation against zod (or zod-compatible) schemas
+ *
+ * api<T>() only casts the body, so a renamed backend field renders as
+ * `undefined`. Passing a schema makes the drift visible:
+ *   strict (development) → the call fails with SchemaMismatchError
+ *   log    (production)  → console.warn, data is returned as-is
+ *   off                  → no parsing
+ *
+ * ISO date strings are coerced to Date wherever the schema expects a date,
+ * so item schemas can use plain `z.date()`.
+ *
+ * Usage:
+ *   const result = await getItem("users", id, { schema: userSchema });
+ *   if (result.error instanceof SchemaMismatchError) reportDrift(result.error.issues);
+ */
+
+import { SchemaMismatchError } from "./errors";
+import type { ResponseSchema, SchemaIssue, ValidationMode } from "./types";
+
+const DEFAULT_MODE: ValidationMode =
+  process.env.NODE_ENV === "production" ? "log" : "strict";
+
+interface ParseContext {
+  // Used in the error message and log output
+  resource: string;
+  mode?: ValidationMode;
+}
+
+type ParseResult<T> =
+  | { data: T; issues?: undefined }
+  | { data: unknown; issues: SchemaIssue[] };
+
+const isDateString = (value: unknown): value is string =>
+  typeof value === "string" && !Number.isNaN(Date.parse(value));
+
+/**
+ * Replaces date strings at the paths where the schema wanted a Date
+ * Returns false when there was nothing to revive
+ */
+const reviveDates = (data: unknown, issues: SchemaIssue[]): boolean => {
+  let revived = false;
+
+  issues.forEach(({ code, expected, path }) => {
+    if (code !== "invalid_type" || expected !== "date" || path.length === 0) return;
+
+    const parent = path
+      .slice(0, -1)
+      .reduce<unknown>(
+        (node, key) => (node as Record<PropertyKey, unknown> | undefined)?.[key],
+        data
+      ) as Record<PropertyKey, unknown> | undefined;
+    const key = path[path.length - 1];
+
+    if (parent && isDateString(parent[key])) {
+      parent[key] = new Date(parent[key] as string);
+      revived = true;
+    }
+  });
+
+  return revived;
+};
+
+/**
+ * safeParse with one retry after coercing date strings
+ */
+const parseWithDates = <T>(
+  schema: ResponseSchema<T>,
+  data: unknown
+): ParseResult<T> => {
+  let result = schema.safeParse(data);
+
+  if (!result.success && reviveDates(data, result.error.issues)) {
+    result = schema.safeParse(data);
+  }
+
+  return result.success ? { data: result.data } : { data, issues: result.error.issues };
+};
+
+/**
+ * Applies the mode to a failed parse: throw, warn, or stay quiet
+ */
+const reportMismatch = (
+  issues: SchemaIssue[],
+  { resource, mode = DEFAULT_MODE }: ParseContext
+): void => {
+  if (mode === "strict") throw new SchemaMismatchError(resource, issues);
+
+  console.warn(`[api] Response for "${resource}" doesn't match its schema`, issues);
+};
+
+/**
+ * Validates a single response item
+ * Throws SchemaMismatchError in strict mode (crud.ts turns it into a failed result)
+ */
+export const parseItem = <T>(
+  schema: ResponseSchema<T> | undefined,
+  item: T,
+  context: ParseContext
+): T => {
+  if (!schema || context.mode === "off") return item;
+
+  const result = parseWithDates(schema, item);
+  if (!result.issues) return result.data;
+
+  reportMismatch(result.issues, context);
+  return result.data as T;
+};
+
+/**
+ * Validates every item of a collection page
+ * Issue paths are prefixed with the item index
+ */
+export const parseItems = <T>(
+  schema: ResponseSchema<T> | undefined,
+  items: T[],
+  context: ParseContext
+): T[] => {
+  if (!schema || context.mode === "off") return items;
+
+  const issues: SchemaIssue[] = [];
+  const parsed = items.map((item, index) => {
+    const result = parseWithDates(schema, item);
+    if (!result.issues) return result.data;
+
+    result.issues.forEach((issue) => issues.push({ ...issue, path: [index, ...issue.path] }));
+    return result.data as T;
+  });
+
+  if (issues.length > 0) reportMismatch(issues, context);
+  return parsed;
+};
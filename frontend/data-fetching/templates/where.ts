@@ -0,0 +1,99 @@
+/**
+ * Type-safe `where` filters derived from the resource item type
+ *
+ * Purely compile-time: a Where<T> is the same plain object the API already
+ * accepts, serialised by buildQueryString() unchanged
+ * (e.g. `where[address.city][equals]=Leeds`).
+ *
+ * Usage:
+ *   usePaginatedResource<User>({
+ *     resource: "users",
+ *     where: {
+ *       status: { in: ["active", "invited"] },
+ *       "address.city": { equals: "Leeds" },
+ *       or: [{ role: { equals: "admin" } }, { loginCount: { greater_than: 10 } }],
+ *     },
+ *   });
+ *
+ *   // { staus: ... } or { status: { equals: 42 } } → compile error
+ */
+
+// Values that end a path (no further dot-segments)
+type Leaf = string | number | boolean | bigint | Date | null | undefined;
+
+// Recursion limit for nested paths (depth 3 = "a.b.c")
+type PrevDepth = [never, 0, 1, 2, 3];
+
+// Element type for array fields, so `tags: string[]` filters by string
+type Scalar<V> = V extends readonly (infer U)[] ? U : V;
+
+/**
+ * Every filterable field of T as a dot-path ("status", "address.city")
+ * Arrays of objects are traversed ("lineItems.sku"), object fields are
+ * themselves filterable (relations by ID)
+ */
+export type WherePath<T, Depth extends number = 3> = [Depth] extends [never]
+  ? never
+  : T extends Leaf
+    ? never
+    : T extends readonly (infer U)[]
+      ? WherePath<U, Depth>
+      : {
+          [K in keyof T & string]: NonNullable<Scalar<T[K]>> extends Leaf
+            ? K
+            : K | `${K}.${WherePath<NonNullable<Scalar<T[K]>>, PrevDepth[Depth]>}`;
+        }[keyof T & string];
+
+/**
+ * Type of the value at a dot-path of T
+ */
+export type WherePathValue<T, P extends string> = T extends readonly (infer U)[]
+  ? WherePathValue<U, P>
+  : P extends `${infer K}.${infer Rest}`
+    ? K extends keyof T
+      ? WherePathValue<NonNullable<T[K]>, Rest>
+      : never
+    : P extends keyof T
+      ? NonNullable<T[P]>
+      : never;
+
+type Comparable<V> = V extends number | string | Date ? V : never;
+
+/**
+ * Operators available for a field, narrowed by the field's type
+ */
+export interface WhereOperators<V> {
+  equals?: V | null;
+  not_equals?: V | null;
+  in?: V[];
+  not_in?: V[];
+  exists?: boolean;
+  contains?: V extends string ? string : never;
+  like?: V extends string ? string : never;
+  greater_than?: Comparable<V>;
+  greater_than_equal?: Comparable<V>;
+  less_than?: Comparable<V>;
+  less_than_equal?: Comparable<V>;
+}
+
+/**
+ * Typed `where` clause for a resource item type
+ * Untyped resources (Record<string, unknown>) accept any field name
+ */
+export type Where<T> = {
+  [P in WherePath<T>]?: WhereOperators<Scalar<WherePathValue<T, P>>>;
+} & {
+  and?: Where<T>[];
+  or?: Where<T>[];
+};
+
+/**
+ * Identity helper for building filters outside a hook call
+ *
+ * @example
+ * const activeAdmins = defineWhere<User>({
+ *   status: { equals: "active" },
+ *   role: { equals: "admin" },
+ * });
+ */
+export const defineWhere = <T>(where: Where<T>): Where<T> => where;
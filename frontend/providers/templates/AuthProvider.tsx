@@ -55,6 +55,11 @@ import {
   useEffect,
   type ReactNode,
 } from "react";
+// NOTE: Import from your project's data-fetching location
+import { onSessionExpired } from "~/lib/api";
+// NOTE: Without cache persistence, use clearAllCache from "~/lib/cache"
+import { clearPersistedCache } from "~/lib/persist";
+import { broadcast, onTabMessage } from "~/lib/tabSync";
 
 // =============================================================================
 // 1. DEFINE TYPES
@@ -175,33 +180,34 @@ interface AuthProviderProps {
 export function AuthProvider({ children }: AuthProviderProps) {
   const [state, dispatch] = useReducer(authReducer, initialState);
 
-  // Check for existing session on mount
-  useEffect(() => {
-    const checkAuth = async () => {
-      const token = getStoredToken();
-      if (!token) {
-        dispatch({ type: "AUTH_FAILURE", payload: "" });
-        return;
-      }
+  // Load the session from the stored token
+  const checkAuth = useCallback(async () => {
+    const token = getStoredToken();
+    if (!token) {
+      dispatch({ type: "AUTH_FAILURE", payload: "" });
+      return;
+    }
 
-      try {
-        // TODO: Replace with your API endpoint
-        const response = await fetch("/api/auth/me", {
-          headers: { Authorization: `Bearer ${token}` },
-        });
+    try {
+      // TODO: Replace with your API endpoint
+      const response = await fetch("/api/auth/me", {
+        headers: { Authorization: `Bearer ${token}` },
+      });
 
-        if (!response.ok) throw new Error("Session expired");
+      if (!response.ok) throw new Error("Session expired");
 
-        const user = await response.json();
-        dispatch({ type: "AUTH_SUCCESS", payload: user });
-      } catch {
-        removeStoredToken();
-        dispatch({ type: "AUTH_FAILURE", payload: "" });
-      }
-    };
+      const user = await response.json();
+      dispatch({ type: "AUTH_SUCCESS", payload: user });
+    } catch {
+      removeStoredToken();
+      dispatch({ type: "AUTH_FAILURE", payload: "" });
+    }
+  }, []);
 
+  // Check for existing session on mount
+  useEffect(() => {
     checkAuth();
-  }, []);
+  }, [checkAuth]);
 
   // Login action
   const login = useCallback(async (email: string, password: string) => {
@@ -223,6 +229,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
       const { user, token } = await response.json();
       setStoredToken(token);
       dispatch({ type: "AUTH_SUCCESS", payload: user });
+      broadcast({ type: "auth", event: "login" });
     } catch (e) {
       dispatch({
         type: "AUTH_FAILURE",
@@ -231,12 +238,35 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   }, []);
 
-  // Logout action
-  const logout = useCallback(() => {
+  // Ends the session in this tab only
+  const endSession = useCallback(() => {
     removeStoredToken();
+    // Drop cached data (in memory and on disk) so the next user never sees it
+    void clearPersistedCache();
     dispatch({ type: "LOGOUT" });
   }, []);
 
+  // Logout action - other open tabs log out too
+  const logout = useCallback(() => {
+    endSession();
+    broadcast({ type: "auth", event: "logout" });
+  }, [endSession]);
+
+  // Follow logins/logouts from other tabs (the token is shared via localStorage)
+  useEffect(
+    () =>
+      onTabMessage((message) => {
+        if (message.type !== "auth") return;
+        if (message.event === "logout") endSession();
+        if (message.event === "login") checkAuth();
+      }),
+    [endSession, checkAuth]
+  );
+
+  // Log out once when api() fails to refresh the session
+  // (fires a single time even if many requests were waiting on the refresh)
+  useEffect(() => onSessionExpired(logout), [logout]);
+
   // Clear error action
   const clearError = useCallback(() => {
     dispatch({ type: "CLEAR_ERROR" });
@@ -1,14 +1,26 @@
 import { lazy } from "react";
-import type { RouteObject } from "react-router-dom";
+import { useRouteError, type RouteObject } from "react-router-dom";
+import { ApiError } from "~/lib/errors";
+import { resourceLoader } from "~/lib/loaders";
+import { prefetchCollection, prefetchResource } from "~/lib/prefetch";
+import { lazyWithPreload, type PrefetchHandle } from "~/prefetchRoute";
+import NotFoundPage from "~/pages/NotFoundPage";
 
 // ============================================================================
 // LAZY LOADED PAGE COMPONENTS
 // ============================================================================
 // Always lazy load page components for code splitting
-const PageDashboard = lazy(() => import("~/pages/dashboard/PageDashboard"));
-const PageAnalytics = lazy(() => import("~/pages/dashboard/PageAnalytics"));
-const PageReports = lazy(() => import("~/pages/dashboard/PageReports"));
-const PageReportDetail = lazy(
+// (lazyWithPreload = lazy + a preload() that <Link prefetch> calls)
+const PageDashboard = lazyWithPreload(
+  () => import("~/pages/dashboard/PageDashboard")
+);
+const PageAnalytics = lazyWithPreload(
+  () => import("~/pages/dashboard/PageAnalytics")
+);
+const PageReports = lazyWithPreload(
+  () => import("~/pages/dashboard/PageReports")
+);
+const PageReportDetail = lazyWithPreload(
   () => import("~/pages/dashboard/PageReportDetail")
 );
 
@@ -17,6 +29,23 @@ const PageReportDetail = lazy(
 // ============================================================================
 const ListingTemplate = lazy(() => import("~/templates/ListingTemplate"));
 
+// ============================================================================
+// ROUTE ERRORS
+// ============================================================================
+// resourceLoader throws the failed request's ApiError (404, 403, network...)
+const RouteError = () => {
+  const error = useRouteError();
+
+  if (error instanceof ApiError && error.status === 404) {
+    return <NotFoundPage />;
+  }
+  return (
+    <p role="alert">
+      {error instanceof ApiError ? error.message : "Something went wrong"}
+    </p>
+  );
+};
+
 // ============================================================================
 // ROUTE DEFINITION
 // ============================================================================
@@ -39,10 +68,27 @@ export const dashboardRoutes: RouteObject = {
 
     // Nested routes
     { path: "analytics", Component: PageAnalytics },
-    { path: "reports", Component: PageReports },
+    {
+      path: "reports",
+      Component: PageReports,
+      // Warms the first page the list renders (same params as its hook)
+      handle: {
+        prefetch: () => prefetchCollection("reports"),
+      } satisfies PrefetchHandle,
+    },
 
     // Dynamic route with parameter
-    { path: "reports/:reportId", Component: PageReportDetail },
+    {
+      path: "reports/:reportId",
+      Component: PageReportDetail,
+      // Fetches while the page chunk downloads; failures render errorElement
+      loader: resourceLoader({ resource: "reports", id: "reportId" }),
+      errorElement: <RouteError />,
+      // <Link href="/dashboard/reports/r1" prefetch="hover"> loads report r1
+      handle: {
+        prefetch: ({ reportId }) => prefetchResource("reports", reportId!),
+      } satisfies PrefetchHandle,
+    },
   ],
 };
 
@@ -0,0 +1,91 @@
+import { lazy, type ComponentType, type LazyExoticComponent } from "react";
+import { matchRoutes, type Params, type RouteObject } from "react-router-dom";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PrefetchMode = "hover" | "viewport";
+
+/**
+ * Route `handle` with an optional data prefetcher.
+ * Receives the params matched from the link's href.
+ */
+export interface PrefetchHandle {
+  prefetch?: (params: Params) => unknown;
+}
+
+interface Preloadable {
+  preload: () => Promise<unknown>;
+}
+
+type PreloadableComponent<T extends ComponentType<any>> =
+  LazyExoticComponent<T> & Preloadable;
+
+// ============================================================================
+// LAZY WITH PRELOAD
+// ============================================================================
+
+/**
+ * Drop-in replacement for `lazy()` that can download the chunk early.
+ * A failed download is retried on the next call instead of being cached.
+ *
+ * @example
+ * const PageReportDetail = lazyWithPreload(
+ *   () => import("~/pages/dashboard/PageReportDetail")
+ * );
+ */
+export function lazyWithPreload<T extends ComponentType<any>>(
+  factory: () => Promise<{ default: T }>
+): PreloadableComponent<T> {
+  let promise: Promise<{ default: T }> | null = null;
+
+  const load = () => {
+    promise ??= factory().catch((error) => {
+      promise = null;
+      throw error;
+    });
+    return promise;
+  };
+
+  return Object.assign(lazy(load), { preload: load });
+}
+
+// ============================================================================
+// ROUTE PREFETCHING
+// ============================================================================
+
+let prefetchRoutes: RouteObject[] = [];
+
+/**
+ * Makes the route tree available to `prefetchRoute` (and Link `prefetch`).
+ * Call once in router.tsx with the same array passed to createBrowserRouter.
+ */
+export function registerPrefetchRoutes(routes: RouteObject[]): void {
+  prefetchRoutes = routes;
+}
+
+/**
+ * Warms everything a navigation to `href` needs: the lazy page chunk of
+ * every matched route and the data from each route's `handle.prefetch`.
+ * Safe to call repeatedly - chunks and cached queries load once.
+ *
+ * @example
+ * prefetchRoute(`/dashboard/reports/${report.id}`);
+ */
+export function prefetchRoute(href: string): void {
+  const matches = matchRoutes(prefetchRoutes, href);
+
+  matches?.forEach(({ route, params }) => {
+    // Data routers (router.routes) turn `Component` into `element`
+    const element = route.element as { type?: unknown } | null | undefined;
+    const component = (route.Component ?? element?.type) as
+      | Partial<Preloadable>
+      | null
+      | undefined;
+    // Failed downloads surface (and retry) on the real navigation
+    component?.preload?.().catch(() => undefined);
+
+    (route.handle as PrefetchHandle | undefined)?.prefetch?.(params);
+  });
+}
@@ -1,5 +1,6 @@
 import { lazy, Suspense } from "react";
-import { createBrowserRouter } from "react-router-dom";
+import { createBrowserRouter, type RouteObject } from "react-router-dom";
+import { lazyWithPreload, registerPrefetchRoutes } from "~/prefetchRoute";
 
 // ============================================================================
 // LAYOUT COMPONENTS
@@ -26,7 +27,8 @@ import { settingsRoutes } from "~/routes/settings.routes";
 // ============================================================================
 // LAZY LOADED PAGES
 // ============================================================================
-const PageHome = lazy(() => import("~/pages/private/PageHome"));
+// lazyWithPreload lets <Link prefetch> download the chunk before the click
+const PageHome = lazyWithPreload(() => import("~/pages/private/PageHome"));
 const PageFormPreview = lazy(() => import("~/pages/forms/PageFormPreview"));
 
 // ============================================================================
@@ -39,64 +41,67 @@ import { LocalSessionProvider } from "~/providers/LocalSessionProvider";
 // ROUTER CONFIGURATION
 // ============================================================================
 
-export const router = createBrowserRouter(
-  [
-    {
-      Component: LayoutRoot,
-      errorElement: <NotFoundPage />,
-      children: [
-        // ================================================================
-        // ISOLATED ROUTES (outside main provider tree)
-        // ================================================================
-        // Use for: form previews, OAuth callbacks, embedded widgets
-        {
-          path: "forms/:formId/preview",
-          element: (
-            <LocalSessionProvider>
-              <Suspense fallback={null}>
-                <PageFormPreview />
-              </Suspense>
-            </LocalSessionProvider>
-          ),
-        },
+const routes: RouteObject[] = [
+  {
+    Component: LayoutRoot,
+    errorElement: <NotFoundPage />,
+    children: [
+      // ================================================================
+      // ISOLATED ROUTES (outside main provider tree)
+      // ================================================================
+      // Use for: form previews, OAuth callbacks, embedded widgets
+      {
+        path: "forms/:formId/preview",
+        element: (
+          <LocalSessionProvider>
+            <Suspense fallback={null}>
+              <PageFormPreview />
+            </Suspense>
+          </LocalSessionProvider>
+        ),
+      },
 
-        // ================================================================
-        // MAIN APPLICATION (inside providers)
-        // ================================================================
-        {
-          Component: LayoutProviderWrapped,
-          children: [
-            // ==============================================================
-            // AUTHENTICATION ROUTES
-            // ==============================================================
-            authRoutes,
+      // ================================================================
+      // MAIN APPLICATION (inside providers)
+      // ================================================================
+      {
+        Component: LayoutProviderWrapped,
+        children: [
+          // ==============================================================
+          // AUTHENTICATION ROUTES
+          // ==============================================================
+          authRoutes,
 
-            // ==============================================================
-            // PRIVATE AUTHENTICATED ROUTES
-            // ==============================================================
-            {
-              Component: LayoutPrivate,
-              children: [
-                // Home Page
-                { path: "/", Component: PageHome },
+          // ==============================================================
+          // PRIVATE AUTHENTICATED ROUTES
+          // ==============================================================
+          {
+            Component: LayoutPrivate,
+            children: [
+              // Home Page
+              { path: "/", Component: PageHome },
 
-                // Dashboard Routes
-                dashboardRoutes,
+              // Dashboard Routes
+              dashboardRoutes,
 
-                // Settings Routes
-                ...settingsRoutes,
-              ],
-            },
-          ],
-        },
-      ],
-    },
-  ],
-  {
-    // Optional: Set basename if app runs in a subdirectory
-    basename: "/app",
-  }
-);
+              // Settings Routes
+              ...settingsRoutes,
+            ],
+          },
+        ],
+      },
+    ],
+  },
+];
+
+export const router = createBrowserRouter(routes, {
+  // Optional: Set basename if app runs in a subdirectory
+  basename: "/app",
+});
+
+// Lets <Link prefetch="hover" | "viewport"> match hrefs to routes.
+// Pass `routes`, not `router.routes` - the router's copies lose `Component`
+registerPrefetchRoutes(routes);
 
 // =============================================================================
 // EXAMPLE USAGE
@@ -7,7 +7,7 @@ import {
 } from "@stripe/react-connect-js";
 import { loadConnectAndInitialize } from "@stripe/connect-js/pure";
 import type { StripeConnectInstance } from "@stripe/connect-js";
-import { rest } from "~/lib/api/rest"; // Adjust to your API client
+import { api } from "~/lib/api"; // Adjust to your API client
 import { SkeletonLoader } from "~/atoms/SkeletonLoader";
 import { Alert } from "~/components/Alert";
 
@@ -48,8 +48,8 @@ const useStripeConnectInstance = ({
         const instance = loadConnectAndInitialize({
           publishableKey: STRIPE_PUBLISHABLE_KEY,
           fetchClientSecret: async () => {
-            const response = await rest.post<AccountSessionResponse>(
-              "/api/stripe/account-sessions",
+            const response = await api<AccountSessionResponse>(
+              "/stripe/account-sessions",
               { account: accountId }
             );
             return response.clientSecret;
@@ -1,6 +1,6 @@
 // components/Stripe/CustomerPortalButton.tsx
 import { useMutation } from "@tanstack/react-query";
-import { rest } from "~/lib/api/rest"; // Adjust to your API client
+import { api } from "~/lib/api"; // Adjust to your API client
 import { Button } from "~/atoms/buttons/Button";
 
 interface PortalSessionResponse {
@@ -18,8 +18,8 @@ interface CreatePortalParams {
 export const useCustomerPortal = () => {
   return useMutation({
     mutationFn: async ({ organizationId, returnUrl }: CreatePortalParams) => {
-      const response = await rest.post<PortalSessionResponse>(
-        "/api/stripe/customer-portal-session",
+      const response = await api<PortalSessionResponse>(
+        "/stripe/customer-portal-session",
         {
           organization: organizationId,
           returnUrl: returnUrl || window.location.href,
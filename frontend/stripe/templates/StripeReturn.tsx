@@ -2,7 +2,7 @@
 import { useEffect, useState } from "react";
 import { useNavigate, useSearchParams } from "react-router-dom";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { rest } from "~/lib/api/rest"; // Adjust to your API client
+import { api } from "~/lib/api"; // Adjust to your API client
 import { SkeletonLoader } from "~/atoms/SkeletonLoader";
 import { Alert } from "~/components/Alert";
 
@@ -34,7 +34,7 @@ export const StripeReturn = () => {
 
   const syncMutation = useMutation({
     mutationFn: async (checkoutSession: string) => {
-      return rest.post("/api/stripe/subscription-checkout-session/sync", {
+      return api("/stripe/subscription-checkout-session/sync", {
         checkoutSession,
       });
     },
@@ -5,7 +5,7 @@ import {
   EmbeddedCheckoutProvider,
 } from "@stripe/react-stripe-js";
 import { loadStripe, Stripe } from "@stripe/stripe-js";
-import { rest } from "~/lib/api/rest"; // Adjust to your API client
+import { api } from "~/lib/api"; // Adjust to your API client
 import { SkeletonLoader } from "~/atoms/SkeletonLoader";
 import { Alert } from "~/components/Alert";
 
@@ -98,8 +98,8 @@ export const SubscriptionCheckout = ({
         returnUrl.searchParams.set("redirect", redirectPath);
       }
 
-      const response = await rest.post<CheckoutSessionResponse>(
-        "/api/stripe/subscription-checkout-session",
+      const response = await api<CheckoutSessionResponse>(
+        "/stripe/subscription-checkout-session",
         {
           organization: organizationId,
           price: priceId,
@@ -1,6 +1,6 @@
 // hooks/stripe/useStripePaymentIntent.ts
 import { useState, useEffect } from "react";
-import { rest } from "~/lib/api/rest"; // Adjust to your API client
+import { api } from "~/lib/api"; // Adjust to your API client
 
 interface PaymentIntentResponse {
   client_secret: string;
@@ -52,8 +52,8 @@ export const useStripePaymentIntent = ({
       setError(null);
 
       try {
-        const response = await rest.post<PaymentIntentResponse>(
-          "/api/stripe/payment-intents",
+        const response = await api<PaymentIntentResponse>(
+          "/stripe/payment-intents",
           {
             invoice: invoiceId,
             paymentMethod: paymentMethodId,
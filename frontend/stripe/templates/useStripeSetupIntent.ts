@@ -1,6 +1,6 @@
 // hooks/stripe/useStripeSetupIntent.ts
 import { useState, useEffect } from "react";
-import { rest } from "~/lib/api/rest"; // Adjust to your API client
+import { api } from "~/lib/api"; // Adjust to your API client
 
 interface SetupIntentResponse {
   client_secret: string;
@@ -49,8 +49,8 @@ export const useStripeSetupIntent = ({
       setError(null);
 
       try {
-        const response = await rest.post<SetupIntentResponse>(
-          "/api/stripe/setup-intents"
+        const response = await api<SetupIntentResponse>(
+          "/stripe/setup-intents"
         );
         setSetupIntent(response.client_secret);
       } catch (err) {